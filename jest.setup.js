@@ -1,5 +1,6 @@
 // Jest setup file
 import { TextEncoder, TextDecoder } from 'util';
+import { jest } from '@jest/globals';
 
 global.TextEncoder = TextEncoder;
 global.TextDecoder = TextDecoder;
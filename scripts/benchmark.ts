@@ -8,6 +8,9 @@ import fs from 'node:fs/promises';
 
 const SERVER_URL = 'http://localhost:8080';
 
+// --layers: request debug.layers and save each image's layer ZIP next to the output (timings include the dump)
+const DUMP_LAYERS = process.argv.includes('--layers');
+
 // Optimized settings for <500ms target while maintaining quality
 const OPTIMIZED_SETTINGS = {
   maxColors: 12,
@@ -39,7 +42,7 @@ async function benchmarkImage(imagePath: string): Promise<BenchResult> {
   const form = new FormData();
   const mimeType = imageName.endsWith('.jpg') || imageName.endsWith('.jpeg') ? 'image/jpeg' : 'image/png';
   form.append('image', new Blob([imageBuffer], { type: mimeType }), imageName);
-  form.append('options', JSON.stringify(OPTIMIZED_SETTINGS));
+  form.append('options', JSON.stringify(DUMP_LAYERS ? { ...OPTIMIZED_SETTINGS, debug: { layers: true } } : OPTIMIZED_SETTINGS));
   
   const startTime = Date.now();
   
@@ -55,7 +58,7 @@ async function benchmarkImage(imagePath: string): Promise<BenchResult> {
   }
   
   const resultBuffer = Buffer.from(await response.arrayBuffer());
-  const outputPath = `test-output/${imageName}-benchmark.png`;
+  const outputPath = DUMP_LAYERS ? `test-output/${imageName}-layers.zip` : `test-output/${imageName}-benchmark.png`;
   await fs.writeFile(outputPath, resultBuffer);
   
   return {
@@ -0,0 +1,129 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import sharp from 'sharp';
+import { hexToRgb } from '../pipeline/color.ts';
+import { renderWeave, type Weave } from './weaves.ts';
+
+export interface FabricInfo {
+  name: string;
+  source: 'procedural' | 'uploaded';
+  weave?: Weave;
+  hex?: string;
+}
+
+// Procedural fabrics: weave plus default base color; `background.hex` recolors them
+const PROCEDURAL_FABRICS: Record<string, { weave: Weave; hex: string }> = {
+  cotton: { weave: 'canvas', hex: '#e9e4d8' },
+  linen: { weave: 'canvas', hex: '#d8ccb4' },
+  canvas: { weave: 'canvas', hex: '#cdbf9f' },
+  twill: { weave: 'twill', hex: '#bfae88' },
+  denim: { weave: 'twill', hex: '#3a5378' },
+  pique: { weave: 'pique', hex: '#f2f2ef' },
+  heather: { weave: 'heather', hex: '#8f9194' },
+  felt: { weave: 'felt', hex: '#7b2430' },
+  mesh: { weave: 'mesh', hex: '#2b2b2d' }
+};
+
+// Uploaded fabric photos are stored as PNG; they are assumed to be shot at the scale of a 3px thread
+const UPLOAD_DIR = path.resolve(process.env.FABRICS_DIR || 'data/fabrics');
+const UPLOAD_REFERENCE_THICKNESS = 3;
+const UPLOAD_MAX_SIZE = 1024;
+const TILE_CACHE_SIZE = 64;
+const FABRIC_NAME = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+const tileCache = new Map<string, { data: Buffer; width: number; height: number; channels: 3 | 4 }>();
+
+export function isValidFabricName(name: string): boolean {
+  return FABRIC_NAME.test(name);
+}
+
+export function listFabrics(): FabricInfo[] {
+  const fabrics: FabricInfo[] = Object.entries(PROCEDURAL_FABRICS).map(([name, f]) => ({ name, source: 'procedural', weave: f.weave, hex: f.hex }));
+  if (fs.existsSync(UPLOAD_DIR)) {
+    for (const entry of fs.readdirSync(UPLOAD_DIR).sort()) {
+      const name = entry.replace(/\.png$/, '');
+      if (entry.endsWith('.png') && isValidFabricName(name)) fabrics.push({ name, source: 'uploaded' });
+    }
+  }
+  return fabrics;
+}
+
+export function hasFabric(name: string): boolean {
+  return Object.hasOwn(PROCEDURAL_FABRICS, name) || (isValidFabricName(name) && fs.existsSync(path.join(UPLOAD_DIR, `${name}.png`)));
+}
+
+/**
+ * Version of a fabric's image: empty for procedural fabrics, else the modification time and size of the upload.
+ * Anything derived from the file is keyed by it, so replacing an upload reaches every worker thread and cache.
+ */
+export function fabricVersion(name: string): string {
+  if (Object.hasOwn(PROCEDURAL_FABRICS, name) || !isValidFabricName(name)) return '';
+  const stat = fs.statSync(path.join(UPLOAD_DIR, `${name}.png`), { throwIfNoEntry: false });
+  return stat ? `${stat.mtimeMs}:${stat.size}` : '';
+}
+
+/**
+ * Store an uploaded fabric photo, downscaled to a reasonable tile size
+ */
+export async function saveUploadedFabric(name: string, image: Buffer): Promise<FabricInfo> {
+  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+  await sharp(image)
+    .rotate()
+    .resize({ width: UPLOAD_MAX_SIZE, height: UPLOAD_MAX_SIZE, fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .png()
+    .toFile(path.join(UPLOAD_DIR, `${name}.png`));
+  for (const key of tileCache.keys()) if (key.startsWith(`${name}:`)) tileCache.delete(key);
+  return { name, source: 'uploaded' };
+}
+
+async function fabricTile(name: string, hex: string | undefined, threadThickness: number) {
+  const key = `${name}:${fabricVersion(name)}:${hex ?? ''}:${threadThickness}`;
+  const cached = tileCache.get(key);
+  if (cached) return cached;
+
+  let tile: { data: Buffer; width: number; height: number; channels: 3 | 4 } | null = null;
+  const procedural = Object.hasOwn(PROCEDURAL_FABRICS, name) ? PROCEDURAL_FABRICS[name] : undefined;
+  if (procedural) {
+    const rendered = renderWeave(procedural.weave, hexToRgb(hex || procedural.hex), threadThickness, fabricSeed(name));
+    tile = { ...rendered, channels: 3 };
+  } else {
+    const file = path.join(UPLOAD_DIR, `${name}.png`);
+    if (isValidFabricName(name) && fs.existsSync(file)) {
+      const meta = await sharp(file).metadata();
+      const scale = threadThickness / UPLOAD_REFERENCE_THICKNESS;
+      const { data, info } = await sharp(file)
+        .resize(Math.max(8, Math.round((meta.width ?? UPLOAD_MAX_SIZE) * scale)))
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      tile = { data, width: info.width, height: info.height, channels: 3 };
+    }
+  }
+  if (tile) {
+    // Tiles vary by color and thickness, so keep only the most recent ones
+    if (tileCache.size >= TILE_CACHE_SIZE) tileCache.delete(tileCache.keys().next().value!);
+    tileCache.set(key, tile);
+  }
+  return tile;
+}
+
+/**
+ * Full-size fabric background: the tile is repeated rather than stretched, so weave scale tracks threadThickness.
+ * Returns null for unknown fabrics.
+ */
+export async function renderFabricBackground(name: string, hex: string | undefined, threadThickness: number, width: number, height: number): Promise<Buffer | null> {
+  const tile = await fabricTile(name, hex, threadThickness);
+  if (!tile) return null;
+  return sharp({ create: { width, height, channels: 3, background: { r: 0, g: 0, b: 0 } } })
+    .composite([{ input: tile.data, raw: { width: tile.width, height: tile.height, channels: tile.channels }, tile: true }])
+    // Intermediate only (composited again downstream), so skip compression
+    .png({ compressionLevel: 0 })
+    .toBuffer();
+}
+
+function fabricSeed(name: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < name.length; i++) h = Math.imul(h ^ name.charCodeAt(i), 16777619);
+  return h >>> 0;
+}
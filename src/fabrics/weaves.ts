@@ -0,0 +1,119 @@
+import { seededRandom } from '../pipeline/utils.ts';
+
+export type Weave = 'twill' | 'pique' | 'heather' | 'canvas' | 'felt' | 'mesh';
+
+export interface WeaveTile {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Yarn pitch relative to the embroidery thread, and the weave repeat in yarns
+const WEAVE_PARAMS: Record<Weave, { yarnScale: number; repeat: number }> = {
+  canvas: { yarnScale: 1.2, repeat: 2 },
+  twill: { yarnScale: 0.8, repeat: 3 },
+  pique: { yarnScale: 0.7, repeat: 8 },
+  heather: { yarnScale: 0.9, repeat: 2 },
+  felt: { yarnScale: 1, repeat: 1 },
+  mesh: { yarnScale: 2.5, repeat: 4 }
+};
+
+// Tiles are at least this wide so the repeat isn't obvious; the exact size is a whole number of weave repeats
+const MIN_TILE_PX = 128;
+
+/**
+ * Render a seamless weave tile (RGB) for a base color. Yarn pitch follows `threadThickness`, so the fabric keeps
+ * the same physical scale relative to the stitches. Deterministic for the same arguments.
+ */
+export function renderWeave(weave: Weave, color: { r: number; g: number; b: number }, threadThickness: number, seed: number): WeaveTile {
+  const { yarnScale, repeat } = WEAVE_PARAMS[weave];
+  const pitch = Math.max(2, Math.round(threadThickness * yarnScale));
+  const period = pitch * repeat;
+  const size = Math.ceil(MIN_TILE_PX / period) * period;
+  const rand = seededRandom(seed);
+
+  // Per-yarn tone variation (warp along x, weft along y) and a wrapped fine-grain noise field
+  const yarns = size / pitch;
+  const warpTone = Array.from({ length: yarns }, () => 0.93 + rand() * 0.14);
+  const weftTone = Array.from({ length: yarns }, () => 0.93 + rand() * 0.14);
+  const grain = periodicNoise(size, Math.max(4, Math.round(size / 4)), rand);
+  const fibers = weave === 'heather' || weave === 'felt' ? periodicNoise(size, Math.max(8, Math.round(size / pitch)), rand) : null;
+
+  const data = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    const j = Math.floor(y / pitch), fy = (y % pitch + 0.5) / pitch;
+    for (let x = 0; x < size; x++) {
+      const i = Math.floor(x / pitch), fx = (x % pitch + 0.5) / pitch;
+      const n = grain[y * size + x]!;
+      let shade: number;
+      switch (weave) {
+        case 'canvas':
+        case 'heather': {
+          // Plain weave: warp and weft alternate every yarn
+          const warpUp = (i + j) % 2 === 0;
+          shade = warpUp ? (0.72 + 0.28 * Math.sin(Math.PI * fx)) * warpTone[i]! : (0.72 + 0.28 * Math.sin(Math.PI * fy)) * weftTone[j]!;
+          break;
+        }
+        case 'twill': {
+          // 2/1 twill: warp floats over two wefts, stepping one yarn per row, giving the diagonal wale
+          const warpUp = ((i - j) % 3 + 3) % 3 < 2;
+          shade = warpUp ? (0.7 + 0.3 * Math.sin(Math.PI * fx)) * warpTone[i]! : (0.62 + 0.25 * Math.sin(Math.PI * fy)) * weftTone[j]!;
+          break;
+        }
+        case 'pique': {
+          // Fine plain weave embossed with a raised waffle cell
+          const base = (i + j) % 2 === 0 ? 0.85 + 0.15 * Math.sin(Math.PI * fx) : 0.85 + 0.15 * Math.sin(Math.PI * fy);
+          const cx = Math.cos((2 * Math.PI * x) / period), cy = Math.cos((2 * Math.PI * y) / period);
+          shade = base * (0.86 + 0.14 * Math.max(cx, cy));
+          break;
+        }
+        case 'felt':
+          shade = 0.8 + 0.25 * fibers![y * size + x]!;
+          break;
+        case 'mesh': {
+          // Knit mesh: round openings on a square grid show the dark underside
+          const hx = (x % period) / period - 0.5, hy = (y % period) / period - 0.5;
+          const d = Math.hypot(hx, hy);
+          shade = d < 0.28 ? 0.3 : 0.75 + 0.25 * Math.sin(Math.PI * fx) * Math.sin(Math.PI * fy);
+          break;
+        }
+      }
+      shade *= 0.94 + 0.12 * n;
+
+      let r = color.r * shade, g = color.g * shade, b = color.b * shade;
+      if (weave === 'heather') {
+        // Heather blends light and dark fibers into the base color
+        const mix = fibers![y * size + x]! - 0.5;
+        const target = mix > 0 ? 255 : 0;
+        const t = Math.abs(mix) * 0.5;
+        r += (target - r) * t; g += (target - g) * t; b += (target - b) * t;
+      }
+      const p = (y * size + x) * 3;
+      data[p] = Math.max(0, Math.min(255, Math.round(r)));
+      data[p + 1] = Math.max(0, Math.min(255, Math.round(g)));
+      data[p + 2] = Math.max(0, Math.min(255, Math.round(b)));
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+/**
+ * Smooth value noise in [0, 1] on a `cells`×`cells` lattice that wraps at the tile edges
+ */
+function periodicNoise(size: number, cells: number, rand: () => number): Float32Array {
+  const lattice = Float32Array.from({ length: cells * cells }, () => rand());
+  const out = new Float32Array(size * size);
+  const step = size / cells;
+  for (let y = 0; y < size; y++) {
+    const gy = y / step, y0 = Math.floor(gy) % cells, y1 = (y0 + 1) % cells, ty = gy - Math.floor(gy);
+    const sy = ty * ty * (3 - 2 * ty);
+    for (let x = 0; x < size; x++) {
+      const gx = x / step, x0 = Math.floor(gx) % cells, x1 = (x0 + 1) % cells, tx = gx - Math.floor(gx);
+      const sx = tx * tx * (3 - 2 * tx);
+      const top = lattice[y0 * cells + x0]! * (1 - sx) + lattice[y0 * cells + x1]! * sx;
+      const bottom = lattice[y1 * cells + x0]! * (1 - sx) + lattice[y1 * cells + x1]! * sx;
+      out[y * size + x] = top * (1 - sy) + bottom * sy;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,98 @@
+import { limitMoveLength, stitchExtents, type Stitch, type StitchPlan } from '../pipeline/stitches.ts';
+import type { DecodedStitchFile } from './stitchFile.ts';
+
+// Tajima DST: 512-byte ASCII header followed by 3-byte records in 0.1mm units, max ±121 per record
+const HEADER_SIZE = 512;
+const MAX_DELTA = 121;
+
+export function writeDst(plan: StitchPlan, label: string): Buffer {
+  const stitches = limitMoveLength(plan.stitches, MAX_DELTA);
+  const records: number[] = [];
+  let x = 0, y = 0;
+  for (const s of stitches) {
+    records.push(...encodeRecord(s.x - x, s.y - y, s.command));
+    x = s.x; y = s.y;
+  }
+
+  const ext = stitchExtents(stitches);
+  const sign = (v: number) => (v < 0 ? '-' : '+');
+  const header = [
+    `LA:${label.slice(0, 16).padEnd(16, ' ')}\r`,
+    `ST:${String(records.length / 3).padStart(7, ' ')}\r`,
+    `CO:${String(plan.colorChanges).padStart(3, ' ')}\r`,
+    `+X:${String(ext.maxX).padStart(5, ' ')}\r`,
+    `-X:${String(-ext.minX).padStart(5, ' ')}\r`,
+    // DST's +Y points up, the plan's points down
+    `+Y:${String(-ext.minY).padStart(5, ' ')}\r`,
+    `-Y:${String(ext.maxY).padStart(5, ' ')}\r`,
+    `AX:${sign(x)}${String(Math.abs(x)).padStart(5, ' ')}\r`,
+    `AY:${sign(-y)}${String(Math.abs(y)).padStart(5, ' ')}\r`,
+    `MX:+${String(0).padStart(5, ' ')}\r`,
+    `MY:+${String(0).padStart(5, ' ')}\r`,
+    'PD:******\r'
+  ].join('');
+
+  const out = Buffer.alloc(HEADER_SIZE + records.length, 0x20);
+  out.write(header, 0, 'latin1');
+  out[header.length] = 0x1a;
+  Buffer.from(records).copy(out, HEADER_SIZE);
+  return out;
+}
+
+export function readDst(buf: Buffer): DecodedStitchFile {
+  const label = buf.toString('latin1', 3, 19).trim();
+  const stitches: Stitch[] = [];
+  let x = 0, y = 0, colorChanges = 0;
+  for (let i = HEADER_SIZE; i + 2 < buf.length; i += 3) {
+    const b0 = Number(buf[i]), b1 = Number(buf[i + 1]), b2 = Number(buf[i + 2]);
+    if ((b2 & 0xf3) === 0xf3) { stitches.push({ x, y, command: 'end' }); break; }
+    x += decodeDx(b0, b1, b2);
+    y -= decodeDy(b0, b1, b2);
+    if ((b2 & 0xc3) === 0xc3) { stitches.push({ x, y, command: 'color' }); colorChanges++; continue; }
+    stitches.push({ x, y, command: (b2 & 0x80) ? 'jump' : 'stitch' });
+  }
+  return { label, stitches, colorCount: colorChanges + 1 };
+}
+
+function encodeRecord(dx: number, dy: number, command: Stitch['command']): [number, number, number] {
+  let x = dx, y = -dy;
+  let b0 = 0, b1 = 0, b2 = 0x03;
+  if (command === 'jump') b2 |= 0x80;
+  else if (command === 'color') b2 |= 0xc0;
+  else if (command === 'end') { b2 |= 0xf0; x = 0; y = 0; }
+
+  if (x > 40) { b2 |= 0x04; x -= 81; }
+  if (x < -40) { b2 |= 0x08; x += 81; }
+  if (x > 13) { b1 |= 0x04; x -= 27; }
+  if (x < -13) { b1 |= 0x08; x += 27; }
+  if (x > 4) { b0 |= 0x04; x -= 9; }
+  if (x < -4) { b0 |= 0x08; x += 9; }
+  if (x > 1) { b1 |= 0x01; x -= 3; }
+  if (x < -1) { b1 |= 0x02; x += 3; }
+  if (x > 0) { b0 |= 0x01; x -= 1; }
+  if (x < 0) { b0 |= 0x02; x += 1; }
+
+  if (y > 40) { b2 |= 0x20; y -= 81; }
+  if (y < -40) { b2 |= 0x10; y += 81; }
+  if (y > 13) { b1 |= 0x20; y -= 27; }
+  if (y < -13) { b1 |= 0x10; y += 27; }
+  if (y > 4) { b0 |= 0x20; y -= 9; }
+  if (y < -4) { b0 |= 0x10; y += 9; }
+  if (y > 1) { b1 |= 0x80; y -= 3; }
+  if (y < -1) { b1 |= 0x40; y += 3; }
+  if (y > 0) { b0 |= 0x80; y -= 1; }
+  if (y < 0) { b0 |= 0x40; y += 1; }
+  return [b0, b1, b2];
+}
+
+const bit = (b: number, n: number) => (b >> n) & 1;
+
+function decodeDx(b0: number, b1: number, b2: number): number {
+  return 81 * (bit(b2, 2) - bit(b2, 3)) + 27 * (bit(b1, 2) - bit(b1, 3)) + 9 * (bit(b0, 2) - bit(b0, 3))
+    + 3 * (bit(b1, 0) - bit(b1, 1)) + (bit(b0, 0) - bit(b0, 1));
+}
+
+function decodeDy(b0: number, b1: number, b2: number): number {
+  return 81 * (bit(b2, 5) - bit(b2, 4)) + 27 * (bit(b1, 5) - bit(b1, 4)) + 9 * (bit(b0, 5) - bit(b0, 4))
+    + 3 * (bit(b1, 7) - bit(b1, 6)) + (bit(b0, 7) - bit(b0, 6));
+}
@@ -0,0 +1,43 @@
+import { limitMoveLength, type Stitch, type StitchPlan } from '../pipeline/stitches.ts';
+import type { DecodedStitchFile } from './stitchFile.ts';
+
+// Melco EXP: headerless signed byte pairs in 0.1mm units, 0x80 escapes for control codes
+const MAX_DELTA = 127;
+
+export function writeExp(plan: StitchPlan): Buffer {
+  const stitches = limitMoveLength(plan.stitches, MAX_DELTA);
+  const bytes: number[] = [];
+  let x = 0, y = 0;
+  for (const s of stitches) {
+    const dx = s.x - x, dy = -(s.y - y);
+    switch (s.command) {
+      case 'stitch': bytes.push(dx & 0xff, dy & 0xff); break;
+      case 'jump': bytes.push(0x80, 0x04, dx & 0xff, dy & 0xff); break;
+      case 'color': bytes.push(0x80, 0x01, 0x00, 0x00); break;
+      case 'end': break;
+    }
+    x = s.x; y = s.y;
+  }
+  return Buffer.from(bytes);
+}
+
+export function readExp(buf: Buffer): DecodedStitchFile {
+  const stitches: Stitch[] = [];
+  const signed = (b: number) => (b > 127 ? b - 256 : b);
+  let x = 0, y = 0, colorChanges = 0;
+  for (let i = 0; i + 1 < buf.length; i += 2) {
+    const b0 = Number(buf[i]), b1 = Number(buf[i + 1]);
+    if (b0 !== 0x80) {
+      x += signed(b0); y -= signed(b1);
+      stitches.push({ x, y, command: 'stitch' });
+      continue;
+    }
+    const d0 = Number(buf[i + 2] ?? 0), d1 = Number(buf[i + 3] ?? 0);
+    i += 2;
+    if (b1 & 0x01) { stitches.push({ x, y, command: 'color' }); colorChanges++; continue; }
+    x += signed(d0); y -= signed(d1);
+    stitches.push({ x, y, command: 'jump' });
+  }
+  stitches.push({ x, y, command: 'end' });
+  return { label: '', stitches, colorCount: colorChanges + 1 };
+}
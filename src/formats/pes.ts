@@ -0,0 +1,150 @@
+import { limitMoveLength, stitchExtents, type Stitch, type StitchPlan } from '../pipeline/stitches.ts';
+import type { DecodedStitchFile } from './stitchFile.ts';
+
+// Brother PES v1 wrapping a PEC block: the PEC section is what the machines actually sew from
+const PES_SIGNATURE = '#PES0001';
+const PEC_OFFSET = 0x16;
+const PEC_HEADER_SIZE = 512;
+const PEC_BLOCK_HEADER_SIZE = 20;
+const MAX_DELTA = 2047;
+const THUMB_WIDTH_BYTES = 6;
+const THUMB_HEIGHT = 38;
+
+// Brother PEC thread chart, indices 1..64
+const PEC_THREADS: Array<[number, number, number]> = [
+  [26, 10, 148], [15, 117, 255], [0, 147, 76], [186, 189, 254], [236, 0, 0], [228, 153, 90], [204, 72, 171], [253, 196, 250],
+  [221, 132, 205], [107, 211, 138], [228, 169, 69], [255, 189, 66], [255, 230, 0], [108, 217, 0], [193, 169, 65], [181, 173, 151],
+  [186, 156, 95], [250, 245, 158], [128, 128, 128], [0, 0, 0], [0, 28, 223], [223, 0, 184], [98, 98, 98], [105, 38, 13],
+  [255, 0, 96], [191, 130, 0], [243, 145, 120], [255, 104, 5], [240, 240, 240], [200, 50, 205], [176, 191, 155], [101, 191, 235],
+  [255, 186, 4], [255, 240, 108], [254, 202, 21], [243, 129, 1], [55, 169, 35], [35, 70, 95], [166, 166, 149], [206, 191, 166],
+  [150, 170, 2], [255, 227, 198], [255, 153, 215], [0, 112, 4], [237, 204, 251], [192, 137, 216], [231, 217, 180], [233, 14, 134],
+  [207, 104, 41], [64, 134, 21], [219, 23, 151], [255, 167, 4], [185, 255, 255], [34, 137, 39], [182, 18, 205], [0, 170, 0],
+  [254, 169, 220], [254, 213, 16], [0, 151, 223], [255, 255, 132], [207, 231, 116], [255, 200, 100], [255, 200, 200], [255, 200, 200]
+];
+
+export function writePes(plan: StitchPlan, label: string): Buffer {
+  const stitches = limitMoveLength(plan.stitches, MAX_DELTA);
+  const ext = stitchExtents(stitches);
+
+  const pesHeader = Buffer.alloc(PEC_OFFSET, 0);
+  pesHeader.write(PES_SIGNATURE, 0, 'latin1');
+  pesHeader.writeUInt32LE(PEC_OFFSET, 8);
+
+  const colors = plan.threads.map(nearestPecThread);
+  const pecHeader = Buffer.alloc(PEC_HEADER_SIZE, 0x20);
+  pecHeader.write(`LA:${label.slice(0, 16).padEnd(16, ' ')}\r`, 0, 'latin1');
+  pecHeader[32] = 0xff; pecHeader[33] = 0x00;
+  pecHeader[34] = THUMB_WIDTH_BYTES; pecHeader[35] = THUMB_HEIGHT;
+  pecHeader[48] = Math.max(0, colors.length - 1);
+  colors.forEach((c, i) => { pecHeader[49 + i] = c; });
+
+  const encoded = encodePecStitches(stitches);
+  const block = Buffer.alloc(PEC_BLOCK_HEADER_SIZE);
+  block.writeUIntLE(PEC_BLOCK_HEADER_SIZE + encoded.length, 2, 3);
+  block[5] = 0x31; block[6] = 0xff; block[7] = 0xf0;
+  block.writeUInt16LE(ext.maxX - ext.minX, 8);
+  block.writeUInt16LE(ext.maxY - ext.minY, 10);
+  block.writeUInt16LE(0x1e0, 12);
+  block.writeUInt16LE(0x1b0, 14);
+  block.writeUInt16BE(0x9000 | (-ext.minX & 0xfff), 16);
+  block.writeUInt16BE(0x9000 | (-ext.minY & 0xfff), 18);
+
+  const thumbs = [renderThumbnail(stitches, ext)];
+  for (let c = 0; c < colors.length; c++) thumbs.push(renderThumbnail(stitches, ext, c));
+
+  return Buffer.concat([pesHeader, pecHeader, block, encoded, ...thumbs]);
+}
+
+export function readPes(buf: Buffer): DecodedStitchFile {
+  if (buf.toString('latin1', 0, 4) !== '#PES') throw new Error('Not a PES file');
+  const pec = buf.readUInt32LE(8);
+  const label = buf.toString('latin1', pec + 3, pec + 19).trim();
+  const colorCount = Number(buf[pec + 48]) + 1;
+  const stitches: Stitch[] = [];
+  const sign12 = (v: number) => (v & 0x800 ? (v & 0xfff) - 0x1000 : v & 0xfff);
+  const sign7 = (v: number) => (v & 0x40 ? v - 0x80 : v);
+
+  let i = pec + PEC_HEADER_SIZE + PEC_BLOCK_HEADER_SIZE;
+  let x = 0, y = 0;
+  while (i < buf.length) {
+    const v1 = Number(buf[i++]);
+    if (v1 === 0xff) { stitches.push({ x, y, command: 'end' }); break; }
+    let v2 = Number(buf[i++]);
+    if (v1 === 0xfe && v2 === 0xb0) { i++; stitches.push({ x, y, command: 'color' }); continue; }
+
+    let jump = false, dx: number, dy: number;
+    if (v1 & 0x80) {
+      jump = (v1 & 0x30) !== 0;
+      dx = sign12((v1 << 8) | v2);
+      v2 = Number(buf[i++]);
+    } else {
+      dx = sign7(v1);
+    }
+    if (v2 & 0x80) {
+      jump = jump || (v2 & 0x30) !== 0;
+      dy = sign12((v2 << 8) | Number(buf[i++]));
+    } else {
+      dy = sign7(v2);
+    }
+    x += dx; y += dy;
+    stitches.push({ x, y, command: jump ? 'jump' : 'stitch' });
+  }
+  return { label, stitches, colorCount };
+}
+
+function nearestPecThread(c: { r: number; g: number; b: number }): number {
+  let best = 0, bestDist = Infinity;
+  PEC_THREADS.forEach(([r, g, b], i) => {
+    const d = (r - c.r) ** 2 + (g - c.g) ** 2 + (b - c.b) ** 2;
+    if (d < bestDist) { bestDist = d; best = i; }
+  });
+  return best + 1;
+}
+
+function encodePecStitches(stitches: Stitch[]): Buffer {
+  const bytes: number[] = [];
+  const long = (v: number, flag: number) => {
+    const w = 0x8000 | (flag << 8) | (v & 0xfff);
+    bytes.push((w >> 8) & 0xff, w & 0xff);
+  };
+  let x = 0, y = 0, colorToggle = true, first = true;
+  for (const s of stitches) {
+    const dx = s.x - x, dy = s.y - y;
+    switch (s.command) {
+      case 'stitch':
+        if (dx >= -64 && dx <= 63 && dy >= -64 && dy <= 63) bytes.push(dx & 0x7f, dy & 0x7f);
+        else { long(dx, 0); long(dy, 0); }
+        break;
+      case 'jump':
+        // First move is a plain jump, later ones also trim the thread
+        long(dx, first ? 0x10 : 0x20); long(dy, first ? 0x10 : 0x20);
+        break;
+      case 'color':
+        bytes.push(0xfe, 0xb0, colorToggle ? 2 : 1);
+        colorToggle = !colorToggle;
+        break;
+      case 'end':
+        bytes.push(0xff);
+        break;
+    }
+    first = false;
+    x = s.x; y = s.y;
+  }
+  return Buffer.from(bytes);
+}
+
+function renderThumbnail(stitches: Stitch[], ext: StitchPlan['extents'], colorIndex?: number): Buffer {
+  const out = Buffer.alloc(THUMB_WIDTH_BYTES * THUMB_HEIGHT, 0);
+  const w = THUMB_WIDTH_BYTES * 8;
+  const sx = (w - 4) / Math.max(1, ext.maxX - ext.minX), sy = (THUMB_HEIGHT - 4) / Math.max(1, ext.maxY - ext.minY);
+  const scale = Math.min(sx, sy);
+  let color = 0;
+  for (const s of stitches) {
+    if (s.command === 'color') { color++; continue; }
+    if (s.command !== 'stitch' || (colorIndex !== undefined && color !== colorIndex)) continue;
+    const px = 2 + Math.round((s.x - ext.minX) * scale), py = 2 + Math.round((s.y - ext.minY) * scale);
+    const idx = py * THUMB_WIDTH_BYTES + (px >> 3);
+    if (idx >= 0 && idx < out.length) out[idx] = Number(out[idx]) | (1 << (px & 7));
+  }
+  return out;
+}
@@ -0,0 +1,86 @@
+import { decodeStitchFile, encodeStitchFile, type DecodedStitchFile, type StitchFormat } from './stitchFile.ts';
+import { planStitches, stitchExtents, type Stitch, type StitchPlan } from '../pipeline/stitches.ts';
+import { quantizeColors } from '../pipeline/quantize.ts';
+import { detectEdges } from '../pipeline/edges.ts';
+import { computeOrientation } from '../pipeline/orientation.ts';
+
+function plan(stitches: Stitch[], threads: StitchPlan['threads']): StitchPlan {
+  return {
+    stitches,
+    threads,
+    extents: stitchExtents(stitches),
+    stitchCount: stitches.filter(s => s.command === 'stitch').length,
+    colorChanges: stitches.filter(s => s.command === 'color').length
+  };
+}
+
+// Two threads, moves past every format's per-record limit in both directions, and a jump between blocks
+const synthetic = plan([
+  { x: -30, y: -20, command: 'jump' },
+  { x: -25, y: -20, command: 'stitch' },
+  { x: 100, y: -20, command: 'stitch' },
+  { x: 100, y: 60, command: 'stitch' },
+  { x: -160, y: 60, command: 'stitch' },
+  { x: -160, y: 60, command: 'color' },
+  { x: 2600, y: -2500, command: 'jump' },
+  { x: 2590, y: -2490, command: 'stitch' },
+  { x: 2400, y: -2300, command: 'stitch' },
+  { x: 2400, y: -2300, command: 'end' }
+], [{ r: 20, g: 40, b: 120 }, { r: 240, g: 190, b: 50 }]);
+
+/**
+ * Check the decoded file sews `expected`: every planned stitch in order with its command, where long moves may have
+ * been split into several records of the same command
+ */
+function expectSameStitches(decoded: DecodedStitchFile, expected: StitchPlan) {
+  let i = 0;
+  // Planned coordinates may be -0, which the files can't express
+  for (const { x, y, command } of expected.stitches) {
+    const s = { x: x + 0, y: y + 0, command };
+    while (i < decoded.stitches.length) {
+      const d = decoded.stitches[i++]!;
+      if (d.x === s.x && d.y === s.y && d.command === s.command) break;
+      // Only the plain intermediate records of a split move may come in between
+      expect({ index: i - 1, command: d.command }).toEqual({ index: i - 1, command: s.command });
+    }
+    expect(decoded.stitches[i - 1]).toEqual(s);
+  }
+  expect(i).toBe(decoded.stitches.length);
+  expect(decoded.stitches.filter(s => s.command === 'color')).toHaveLength(expected.colorChanges);
+  expect(decoded.colorCount).toBe(expected.threads.length);
+}
+
+// A transparent logo: a navy square and a gold disc, far enough apart to need a jump between them
+async function logoPlan(): Promise<StitchPlan> {
+  const width = 160, height = 100, data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x >= 15 && x < 65 && y >= 25 && y < 75) data.set([20, 40, 120, 255], (y * width + x) * 4);
+      else if ((x - 120) ** 2 + (y - 50) ** 2 < 28 ** 2) data.set([240, 190, 50, 255], (y * width + x) * 4);
+    }
+  }
+  const quantized = await quantizeColors({ data, info: { width, height, channels: 4 } }, 8);
+  const [edges, orientation] = await Promise.all([
+    detectEdges(quantized, { threadThickness: 3, edgeMode: 'logo' }),
+    computeOrientation(quantized, 'binned-8', 'logo')
+  ]);
+  return planStitches(quantized, orientation, edges, { pixelsPerMm: 10 });
+}
+
+describe.each<StitchFormat>(['dst', 'exp', 'pes'])('%s round trip', format => {
+  it('decodes a written plan back to the same stitches and color changes', () => {
+    expectSameStitches(decodeStitchFile(encodeStitchFile(synthetic, format, 'ROUNDTRIP'), format), synthetic);
+  });
+
+  it('round-trips a plan from the pipeline', async () => {
+    const planned = await logoPlan();
+    expect(planned.colorChanges).toBeGreaterThan(0);
+    expectSameStitches(decodeStitchFile(encodeStitchFile(planned, format), format), planned);
+  });
+
+  if (format !== 'exp') {
+    it('keeps the design label', () => {
+      expect(decodeStitchFile(encodeStitchFile(synthetic, format, 'ROUNDTRIP'), format).label).toBe('ROUNDTRIP');
+    });
+  }
+});
@@ -0,0 +1,41 @@
+import type { Stitch, StitchPlan } from '../pipeline/stitches.ts';
+import { readDst, writeDst } from './dst.ts';
+import { readExp, writeExp } from './exp.ts';
+import { readPes, writePes } from './pes.ts';
+
+export type StitchFormat = 'dst' | 'exp' | 'pes';
+
+export interface DecodedStitchFile {
+  label: string;
+  stitches: Stitch[];
+  colorCount: number;
+}
+
+export const STITCH_FORMATS: Record<StitchFormat, { mime: string; extension: string }> = {
+  dst: { mime: 'application/x-tajima-dst', extension: 'dst' },
+  exp: { mime: 'application/x-melco-exp', extension: 'exp' },
+  pes: { mime: 'application/x-brother-pes', extension: 'pes' }
+};
+
+export function isStitchFormat(value: unknown): value is StitchFormat {
+  return typeof value === 'string' && value in STITCH_FORMATS;
+}
+
+export function encodeStitchFile(plan: StitchPlan, format: StitchFormat, label: string = 'EMBROIDERY'): Buffer {
+  switch (format) {
+    case 'dst': return writeDst(plan, label);
+    case 'exp': return writeExp(plan);
+    case 'pes': return writePes(plan, label);
+  }
+}
+
+/**
+ * Parse a written stitch file back into absolute stitch positions (0.1mm, +y down)
+ */
+export function decodeStitchFile(buf: Buffer, format: StitchFormat): DecodedStitchFile {
+  switch (format) {
+    case 'dst': return readDst(buf);
+    case 'exp': return readExp(buf);
+    case 'pes': return readPes(buf);
+  }
+}
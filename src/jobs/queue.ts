@@ -0,0 +1,276 @@
+import { randomUUID } from 'node:crypto';
+import { MessageChannel } from 'node:worker_threads';
+import type Piscina from 'piscina';
+import { EMBROIDERY_STAGES } from '../pipeline/stages.ts';
+import { JOB_TTL_SECONDS, type Job, type JobStore } from './store.ts';
+import { connectStageCache } from '../stageCache.ts';
+import type { EmbroideryOptions, WorkerPayload, WorkerResult, StageProgress } from '../workers/types.ts';
+
+export interface JobSubmission {
+  image: Buffer;
+  mime: string;
+  options: EmbroideryOptions;
+  webhook?: string;
+}
+
+export interface JobQueue {
+  submit(submission: JobSubmission): Promise<{ job: Job } | { error: 'queue_full' }>;
+  get(id: string): Promise<Job | undefined>;
+  result(id: string): Promise<{ job: Job; data: Buffer } | undefined>;
+  // Cancels a queued or running job; finished jobs are returned unchanged
+  cancel(id: string): Promise<Job | undefined>;
+  remove(id: string): Promise<void>;
+  stats(): { store: JobStore['kind']; queued: number; running: number };
+  close(): Promise<void>;
+}
+
+export interface JobQueueOptions {
+  // Renders in flight at once; the rest wait in the job queue rather than the pool's
+  concurrency: number;
+  // Submissions beyond this many waiting jobs are refused
+  maxPending: number;
+}
+
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const WEBHOOK_ATTEMPTS = 3;
+
+export function isFinished(job: Job): boolean {
+  return job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Webhooks must be absolute http(s) URLs
+ */
+export function isValidWebhook(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Public shape of a job, with links to its status and result
+ */
+export function jobView(job: Job): Job & { links: { self: string; result?: string } } {
+  return {
+    ...job,
+    links: { self: `/jobs/${job.id}`, ...(job.status === 'succeeded' ? { result: `/jobs/${job.id}/result` } : {}) }
+  };
+}
+
+/**
+ * Asynchronous renders on the worker pool. Jobs wait in a FIFO here so at most `concurrency` of them hold pool
+ * slots, leaving the pool queue to the synchronous endpoints. Records go to `store` as the job moves through the
+ * pipeline stages; jobs a restart interrupted are marked failed by `start()`.
+ */
+export function createJobQueue(piscina: Piscina, store: JobStore, options: JobQueueOptions): JobQueue & { start(): Promise<void> } {
+  const waiting: Array<{ job: Job; submission: JobSubmission }> = [];
+  const running = new Map<string, { job: Job; controller: AbortController }>();
+  let sweepTimer: NodeJS.Timeout | undefined;
+  const createdAt = Date.now();
+
+  // Per-job write chain so progress updates reach the store in order
+  const writes = new Map<string, Promise<void>>();
+  const persist = (job: Job): Promise<void> => {
+    const snapshot = structuredClone(job);
+    const next = (writes.get(job.id) ?? Promise.resolve())
+      .then(() => store.save(snapshot))
+      .catch((error: unknown) => console.error(JSON.stringify({ level: 'error', msg: 'jobs.store_failure', id: job.id, error: errorMessage(error) })));
+    writes.set(job.id, next);
+    void next.then(() => { if (writes.get(job.id) === next) writes.delete(job.id); });
+    return next;
+  };
+
+  const finish = async (job: Job, webhook: string | undefined) => {
+    job.finishedAt = new Date().toISOString();
+    await persist(job);
+    console.log(JSON.stringify({ level: 'info', msg: 'jobs.finished', id: job.id, status: job.status }));
+    if (webhook) void notify(webhook, job);
+  };
+
+  const pump = () => {
+    while (running.size < options.concurrency && waiting.length) {
+      const next = waiting.shift()!;
+      void execute(next.job, next.submission);
+    }
+  };
+
+  const execute = async (job: Job, submission: JobSubmission) => {
+    const id = job.id;
+    const controller = new AbortController();
+    running.set(id, { job, controller });
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    void persist(job);
+
+    const { port1, port2 } = new MessageChannel();
+    port1.on('message', ({ stage, ms }: StageProgress) => {
+      const entry = job.progress.stages.find(s => s.name === stage);
+      if (!entry || job.status !== 'running') return;
+      entry.status = 'done';
+      entry.ms = ms;
+      const done = job.progress.stages.filter(s => s.status === 'done').length;
+      job.progress.percent = Math.round((done / job.progress.stages.length) * 100);
+      void persist(job);
+    });
+
+    const stageCache = connectStageCache();
+    try {
+      const payload: WorkerPayload = {
+        image: submission.image,
+        mime: submission.mime,
+        options: submission.options,
+        progress: port2,
+        ...(stageCache ? { stageCache: stageCache.port } : {})
+      };
+      const transferList = stageCache ? [port2, stageCache.port] : [port2];
+      const result: WorkerResult = await piscina.run(payload, { transferList, signal: controller.signal });
+      // debug.layers: the layer archive replaces the image, as on /filter/embroidery
+      const data = Buffer.from(result.debugArchive ?? result.buffer);
+      await store.saveResult(id, data);
+      job.status = 'succeeded';
+      job.progress.percent = 100;
+      // Progress messages travel on their own port and may still be in flight
+      for (const entry of job.progress.stages) entry.status = 'done';
+      job.result = {
+        mime: result.debugArchive ? 'application/zip' : result.mime,
+        size: data.length,
+        ...(result.debugArchive ? { filename: 'embroidery-layers.zip' } : {}),
+        meta: result.meta
+      };
+    } catch (error) {
+      // The worker closes its end when it finishes; this covers tasks that never reached one
+      stageCache?.release();
+      if (controller.signal.aborted) {
+        job.status = 'cancelled';
+      } else {
+        job.status = 'failed';
+        job.error = errorMessage(error);
+      }
+    } finally {
+      port1.close();
+      running.delete(id);
+    }
+    await finish(job, submission.webhook);
+    pump();
+  };
+
+  return {
+    async start() {
+      // Nothing survives a restart but the store: whatever was queued or rendering is gone
+      for (const job of await store.list()) {
+        if (isFinished(job) || Date.parse(job.createdAt) >= createdAt) continue;
+        job.status = 'failed';
+        job.error = 'Interrupted by a server restart';
+        job.finishedAt = new Date().toISOString();
+        await store.save(job);
+      }
+      sweepTimer = setInterval(() => { void sweep(store); }, SWEEP_INTERVAL_MS);
+      sweepTimer.unref();
+      await sweep(store);
+    },
+
+    async submit(submission) {
+      if (waiting.length >= options.maxPending) return { error: 'queue_full' };
+      const job: Job = {
+        id: randomUUID(),
+        status: 'queued',
+        createdAt: new Date().toISOString(),
+        progress: { percent: 0, stages: EMBROIDERY_STAGES.map(name => ({ name, status: 'pending' as const })) },
+        ...(submission.webhook ? { webhook: submission.webhook } : {})
+      };
+      await store.save(job);
+      waiting.push({ job, submission });
+      pump();
+      return { job };
+    },
+
+    async get(id) {
+      return running.get(id)?.job ?? store.get(id);
+    },
+
+    async result(id) {
+      const job = await store.get(id);
+      if (!job || job.status !== 'succeeded') return undefined;
+      const data = await store.getResult(id);
+      return data ? { job, data } : undefined;
+    },
+
+    async cancel(id) {
+      const active = running.get(id);
+      if (active) {
+        // The worker stops at the abort; execute() records the cancellation and fires the webhook
+        active.controller.abort();
+        return { ...active.job, status: 'cancelled' };
+      }
+      const index = waiting.findIndex(w => w.job.id === id);
+      if (index < 0) return store.get(id);
+      const { job, submission } = waiting.splice(index, 1)[0]!;
+      job.status = 'cancelled';
+      await finish(job, submission.webhook);
+      return job;
+    },
+
+    async remove(id) {
+      await store.delete(id);
+    },
+
+    stats() {
+      return { store: store.kind, queued: waiting.length, running: running.size };
+    },
+
+    async close() {
+      if (sweepTimer) clearInterval(sweepTimer);
+      for (const { controller } of running.values()) controller.abort();
+      await Promise.all(writes.values());
+      await store.close();
+    }
+  };
+}
+
+/**
+ * Drop finished jobs (and their results) older than JOB_TTL_SECONDS
+ */
+async function sweep(store: JobStore): Promise<void> {
+  const cutoff = Date.now() - JOB_TTL_SECONDS * 1000;
+  try {
+    for (const job of await store.list()) {
+      if (isFinished(job) && Date.parse(job.finishedAt ?? job.createdAt) < cutoff) await store.delete(job.id);
+    }
+  } catch (error) {
+    console.error(JSON.stringify({ level: 'error', msg: 'jobs.sweep_failure', error: errorMessage(error) }));
+  }
+}
+
+/**
+ * POST the finished job to its webhook, retrying with backoff; delivery failures are logged, never surfaced
+ */
+async function notify(url: string, job: Job): Promise<void> {
+  const body = JSON.stringify(jobView(job));
+  let failure = '';
+  for (let attempt = 1; attempt <= WEBHOOK_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'embroidery-filter' },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      if (response.ok) return;
+      failure = `Webhook answered ${response.status}`;
+      // Client errors won't go away on a retry
+      if (response.status < 500 && response.status !== 429) break;
+    } catch (error) {
+      failure = errorMessage(error);
+    }
+    if (attempt < WEBHOOK_ATTEMPTS) await new Promise(resolve => setTimeout(resolve, 1000 * 4 ** (attempt - 1)));
+  }
+  console.error(JSON.stringify({ level: 'error', msg: 'jobs.webhook_failure', id: job.id, url, error: failure }));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
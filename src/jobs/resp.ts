@@ -0,0 +1,142 @@
+import net from 'node:net';
+import tls from 'node:tls';
+
+// Reply values: bulk strings stay binary (results are image bytes), simple strings are decoded
+export type RespValue = string | number | Buffer | null | RespValue[];
+
+export interface RespConnection {
+  readonly closed: boolean;
+  command(args: Array<string | Buffer>): Promise<RespValue>;
+  close(): void;
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * Minimal RESP2 client: one connection, pipelined commands answered in order. Enough for the job store's
+ * GET/SET/DEL/SCAN without pulling in a Redis driver. `rediss://` connects over TLS; user, password and
+ * `/db` in the URL are sent as AUTH and SELECT.
+ */
+export async function connectResp(url: string): Promise<RespConnection> {
+  const target = new URL(url);
+  if (target.protocol !== 'redis:' && target.protocol !== 'rediss:') throw new Error(`Unsupported Redis URL protocol "${target.protocol}"`);
+  const host = target.hostname || 'localhost';
+  const port = Number(target.port) || 6379;
+
+  const socket = await new Promise<net.Socket>((resolve, reject) => {
+    const s = target.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host }, () => done())
+      : net.connect({ host, port }, () => done());
+    const timer = setTimeout(() => { s.destroy(); reject(new Error(`Redis connection to ${host}:${port} timed out`)); }, CONNECT_TIMEOUT_MS);
+    const done = () => { clearTimeout(timer); s.off('error', fail); resolve(s); };
+    const fail = (error: Error) => { clearTimeout(timer); reject(error); };
+    s.once('error', fail);
+  });
+  socket.setNoDelay(true);
+
+  const pending: Array<{ resolve: (value: RespValue) => void; reject: (error: Error) => void }> = [];
+  let buffer: Buffer = Buffer.alloc(0);
+  let closed = false;
+
+  const shutdown = (error: Error) => {
+    if (closed) return;
+    closed = true;
+    for (const p of pending.splice(0)) p.reject(error);
+    socket.destroy();
+  };
+
+  socket.on('data', chunk => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    for (;;) {
+      let parsed: { value: RespValue | Error; end: number } | undefined;
+      try {
+        parsed = parseReply(buffer, 0);
+      } catch (error) {
+        shutdown(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+      if (!parsed) break;
+      buffer = buffer.subarray(parsed.end);
+      const waiter = pending.shift();
+      if (!waiter) continue;
+      if (parsed.value instanceof Error) waiter.reject(parsed.value);
+      else waiter.resolve(parsed.value);
+    }
+  });
+  socket.on('error', error => shutdown(error));
+  socket.on('close', () => shutdown(new Error('Redis connection closed')));
+
+  const connection: RespConnection = {
+    get closed() { return closed; },
+    command(args) {
+      if (closed) return Promise.reject(new Error('Redis connection closed'));
+      return new Promise((resolve, reject) => {
+        pending.push({ resolve, reject });
+        socket.write(encodeCommand(args));
+      });
+    },
+    close() { shutdown(new Error('Redis connection closed')); }
+  };
+
+  try {
+    const user = decodeURIComponent(target.username);
+    const password = decodeURIComponent(target.password);
+    if (password) await connection.command(user ? ['AUTH', user, password] : ['AUTH', password]);
+    const db = target.pathname.slice(1);
+    if (db) await connection.command(['SELECT', db]);
+  } catch (error) {
+    connection.close();
+    throw error;
+  }
+  return connection;
+}
+
+function encodeCommand(args: Array<string | Buffer>): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const data = typeof arg === 'string' ? Buffer.from(arg) : arg;
+    parts.push(Buffer.from(`$${data.length}\r\n`), data, Buffer.from('\r\n'));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * One reply starting at `offset`, or undefined while it hasn't fully arrived. Error replies come back as values so
+ * the caller can reject just that command.
+ */
+function parseReply(data: Buffer, offset: number): { value: RespValue | Error; end: number } | undefined {
+  const lineEnd = data.indexOf('\r\n', offset);
+  if (lineEnd < 0) return undefined;
+  const type = String.fromCharCode(data[offset]!);
+  const line = data.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+': return { value: line, end: next };
+    case '-': return { value: new Error(line), end: next };
+    case ':': return { value: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { value: null, end: next };
+      if (data.length < next + length + 2) return undefined;
+      return { value: Buffer.from(data.subarray(next, next + length)), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { value: null, end: next };
+      const items: RespValue[] = [];
+      let failure: Error | undefined;
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(data, end);
+        if (!item) return undefined;
+        if (item.value instanceof Error) failure ??= item.value;
+        else items.push(item.value);
+        end = item.end;
+      }
+      return { value: failure ?? items, end };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
@@ -0,0 +1,173 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { connectResp, type RespConnection } from './resp.ts';
+import type { EmbroideryStage } from '../pipeline/stages.ts';
+import type { EmbroideryMeta } from '../workers/types.ts';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobStageProgress {
+  name: EmbroideryStage;
+  status: 'pending' | 'done';
+  ms?: number;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  progress: { percent: number; stages: JobStageProgress[] };
+  webhook?: string;
+  error?: string;
+  // Set once the job has succeeded; the bytes themselves are kept with saveResult
+  result?: { mime: string; size: number; filename?: string; meta: EmbroideryMeta };
+}
+
+/**
+ * Where job records and rendered results live. Records are small JSON documents; results are opaque bytes
+ * (the encoded image, or the layer ZIP for debug.layers renders).
+ */
+export interface JobStore {
+  readonly kind: 'memory' | 'file' | 'redis';
+  save(job: Job): Promise<void>;
+  get(id: string): Promise<Job | undefined>;
+  list(): Promise<Job[]>;
+  saveResult(id: string, data: Buffer): Promise<void>;
+  getResult(id: string): Promise<Buffer | undefined>;
+  // Removes the record and its result
+  delete(id: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Finished jobs and their results are kept this long (JOB_TTL_SECONDS)
+export const JOB_TTL_SECONDS = Math.max(60, Number(process.env.JOB_TTL_SECONDS) || 24 * 60 * 60);
+
+/**
+ * Default store: lost on restart
+ */
+export function memoryJobStore(): JobStore {
+  const jobs = new Map<string, Job>();
+  const results = new Map<string, Buffer>();
+  return {
+    kind: 'memory',
+    async save(job) { jobs.set(job.id, structuredClone(job)); },
+    async get(id) { const job = jobs.get(id); return job ? structuredClone(job) : undefined; },
+    async list() { return Array.from(jobs.values(), job => structuredClone(job)); },
+    async saveResult(id, data) { results.set(id, data); },
+    async getResult(id) { return results.get(id); },
+    async delete(id) { jobs.delete(id); results.delete(id); },
+    async close() {}
+  };
+}
+
+/**
+ * One `<id>.json` record and one `<id>.bin` result per job in `dir`; files are written to a temporary name and renamed
+ * so a crash never leaves a half-written record behind
+ */
+export function fileJobStore(dir: string): JobStore {
+  fs.mkdirSync(dir, { recursive: true });
+  const file = (id: string, ext: 'json' | 'bin') => path.join(dir, `${id}.${ext}`);
+  const write = async (target: string, data: string | Buffer) => {
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmp, data);
+    await fs.promises.rename(tmp, target);
+  };
+  const read = async <T>(target: string, parse: (data: Buffer) => T): Promise<T | undefined> => {
+    try {
+      return parse(await fs.promises.readFile(target));
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  };
+  return {
+    kind: 'file',
+    save: job => write(file(job.id, 'json'), JSON.stringify(job)),
+    get: id => read(file(id, 'json'), data => JSON.parse(data.toString('utf8')) as Job),
+    async list() {
+      const jobs: Job[] = [];
+      for (const entry of await fs.promises.readdir(dir)) {
+        if (!entry.endsWith('.json')) continue;
+        // Skip records that are unreadable or vanish mid-listing rather than failing the whole listing
+        const job = await read(path.join(dir, entry), data => JSON.parse(data.toString('utf8')) as Job).catch(() => undefined);
+        if (job) jobs.push(job);
+      }
+      return jobs;
+    },
+    saveResult: (id, data) => write(file(id, 'bin'), data),
+    getResult: id => read(file(id, 'bin'), data => data),
+    async delete(id) {
+      await fs.promises.rm(file(id, 'json'), { force: true });
+      await fs.promises.rm(file(id, 'bin'), { force: true });
+    },
+    async close() {}
+  };
+}
+
+/**
+ * Records and results as keys on a Redis-compatible server (Redis, Valkey, KeyDB, Dragonfly), expiring after
+ * JOB_TTL_SECONDS so an abandoned job can't outlive the service that would sweep it
+ */
+export function redisJobStore(url: string): JobStore {
+  const prefix = process.env.REDIS_PREFIX || 'embroidery:';
+  const jobKey = (id: string) => `${prefix}job:${id}`;
+  const resultKey = (id: string) => `${prefix}result:${id}`;
+  let connection: Promise<RespConnection> | undefined;
+
+  const command = async (...args: Array<string | Buffer>) => {
+    connection ??= connectResp(url).catch(error => { connection = undefined; throw error; });
+    const conn = await connection;
+    if (conn.closed) { connection = undefined; return command(...args); }
+    return conn.command(args);
+  };
+  const ttl = String(JOB_TTL_SECONDS);
+  const get = async (id: string) => {
+    const data = await command('GET', jobKey(id));
+    return Buffer.isBuffer(data) ? JSON.parse(data.toString('utf8')) as Job : undefined;
+  };
+
+  return {
+    kind: 'redis',
+    async save(job) { await command('SET', jobKey(job.id), JSON.stringify(job), 'EX', ttl); },
+    get,
+    async list() {
+      const jobs: Job[] = [];
+      let cursor = '0';
+      do {
+        const reply = await command('SCAN', cursor, 'MATCH', `${prefix}job:*`, 'COUNT', '100');
+        if (!Array.isArray(reply) || !Buffer.isBuffer(reply[0]) || !Array.isArray(reply[1])) throw new Error('Unexpected SCAN reply');
+        cursor = reply[0].toString();
+        for (const key of reply[1]) {
+          if (!Buffer.isBuffer(key)) continue;
+          const job = await get(key.toString().slice(`${prefix}job:`.length));
+          if (job) jobs.push(job);
+        }
+      } while (cursor !== '0');
+      return jobs;
+    },
+    async saveResult(id, data) { await command('SET', resultKey(id), data, 'EX', ttl); },
+    async getResult(id) {
+      const data = await command('GET', resultKey(id));
+      return Buffer.isBuffer(data) ? data : undefined;
+    },
+    async delete(id) { await command('DEL', jobKey(id), resultKey(id)); },
+    async close() {
+      const conn = await connection?.catch(() => undefined);
+      connection = undefined;
+      conn?.close();
+    }
+  };
+}
+
+/**
+ * Store selected by JOB_STORE: `memory` (default), `file` (JOBS_DIR) or `redis` (REDIS_URL)
+ */
+export function createJobStore(): JobStore {
+  const kind = (process.env.JOB_STORE || 'memory').toLowerCase();
+  if (kind === 'memory') return memoryJobStore();
+  if (kind === 'file') return fileJobStore(path.resolve(process.env.JOBS_DIR || 'data/jobs'));
+  if (kind === 'redis') return redisJobStore(process.env.REDIS_URL || 'redis://localhost:6379');
+  throw new Error(`JOB_STORE must be one of: memory, file, redis (got "${kind}")`);
+}
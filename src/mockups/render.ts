@@ -0,0 +1,207 @@
+import sharp from 'sharp';
+import { hexToRgb } from '../pipeline/color.ts';
+import { renderFabricBackground } from '../fabrics/library.ts';
+import type { MockupTemplate, MockupLayer } from './templates.ts';
+
+export interface MockupPlacement {
+  widthMm?: number;
+  heightMm?: number;
+  offsetXMm?: number;
+  offsetYMm?: number;
+}
+
+// Weave scale used for template fabrics when the template does not set one
+const DEFAULT_TEMPLATE_THREAD = 3;
+// How much the fabric's light/dark weave shows through the stitches
+const DISPLACEMENT_SHADE = 0.15;
+// Stitches on the far side of a curved front catch less light
+const WARP_EDGE_SHADE = 0.25;
+
+/**
+ * Place an embroidered design (RGBA) on a product template: the design is fitted into the placement box, wrapped
+ * around the template's curvature, displaced by the fabric weave and dropped onto the garment with a soft shadow.
+ * The result is opaque and template-sized.
+ */
+export async function renderMockup(design: Buffer, template: MockupTemplate, placement: MockupPlacement = {}): Promise<{ image: sharp.Sharp; info: { width: number; height: number } }> {
+  const { width, height, pixelsPerMm: ppm } = template;
+  const threadThickness = template.threadThickness ?? DEFAULT_TEMPLATE_THREAD;
+  const bend = template.warp ? Math.round(template.warp.bendMm * ppm) : 0;
+
+  // Placement box in template pixels, never larger than the template itself
+  const boxW = Math.max(1, Math.min(width, Math.round((placement.widthMm ?? template.placement.widthMm) * ppm)));
+  const boxH = Math.max(1, Math.min(height - bend, Math.round((placement.heightMm ?? template.placement.heightMm) * ppm)));
+  const fitted = await sharp(design)
+    .ensureAlpha()
+    .resize({ width: boxW, height: boxH, fit: 'inside' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const designW = fitted.info.width, designH = fitted.info.height;
+
+  const outW = designW, outH = designH + bend;
+  const centerX = template.placement.x + (placement.offsetXMm ?? 0) * ppm;
+  const centerY = template.placement.y + (placement.offsetYMm ?? 0) * ppm;
+  const left = Math.max(0, Math.min(width - outW, Math.round(centerX - outW / 2)));
+  const top = Math.max(0, Math.min(height - outH, Math.round(centerY - outH / 2)));
+
+  // Fabric luminance under the design, aligned with the garment's own weave
+  let relief: Float32Array | null = null;
+  if (template.displacement) {
+    const fabric = await renderFabricBackground(template.displacement.fabric, template.displacement.hex, threadThickness, width, height);
+    if (fabric) {
+      const gray = await sharp(fabric).extract({ left, top, width: outW, height: outH }).greyscale().raw().toBuffer();
+      relief = Float32Array.from(gray, v => v / 255);
+    }
+  }
+
+  const placed = warpDesign(fitted.data, designW, designH, outW, outH, template, bend, relief);
+
+  const overlays: sharp.OverlayOptions[] = [];
+  for (const layer of template.layers) {
+    const rendered = await renderLayer(layer, width, height, threadThickness);
+    if (rendered) overlays.push({ input: rendered });
+  }
+  if (template.details?.length) overlays.push({ input: Buffer.from(detailsSvg(template, width, height)) });
+  if (template.shadow) overlays.push(await dropShadow(placed, outW, outH, left, top, width, height, template.shadow));
+  overlays.push({ input: placed, raw: { width: outW, height: outH, channels: 4 }, left, top });
+
+  const backdrop = hexToRgb(template.backdrop || '#ececea');
+  const { data, info } = await sharp({ create: { width, height, channels: 3, background: backdrop } })
+    .composite(overlays)
+    .flatten({ background: backdrop })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { image: sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } }), info: { width, height } };
+}
+
+/**
+ * Garment panel: fabric cut to the panel outline, with form shading multiplied in
+ */
+async function renderLayer(layer: MockupLayer, width: number, height: number, threadThickness: number): Promise<Buffer | null> {
+  const fabric = await renderFabricBackground(layer.fabric, layer.hex, threadThickness, width, height);
+  if (!fabric) return null;
+
+  const ops: sharp.OverlayOptions[] = [];
+  const gradient = shadingGradient(layer.shading ?? 'none');
+  if (gradient) {
+    ops.push({ input: Buffer.from(svg(width, height, `<defs>${gradient}</defs><path d="${layer.path}" fill="url(#shade)"/>`)), blend: 'multiply' });
+  }
+  ops.push({ input: Buffer.from(svg(width, height, `<path d="${layer.path}" fill="#fff"/>`)), blend: 'dest-in' });
+  return sharp(fabric).ensureAlpha().composite(ops).png({ compressionLevel: 0 }).toBuffer();
+}
+
+// Gradients use the path's bounding box, so the same shading fits any panel shape
+function shadingGradient(shading: NonNullable<MockupLayer['shading']>): string | null {
+  switch (shading) {
+    case 'cylinder':
+      return '<linearGradient id="shade" x1="0" y1="0" x2="1" y2="0">'
+        + '<stop offset="0" stop-color="#8c8c8c"/><stop offset="0.42" stop-color="#ffffff"/><stop offset="1" stop-color="#8c8c8c"/></linearGradient>';
+    case 'radial':
+      return '<radialGradient id="shade" cx="0.45" cy="0.4" r="0.7">'
+        + '<stop offset="0" stop-color="#ffffff"/><stop offset="0.7" stop-color="#e6e6e6"/><stop offset="1" stop-color="#b4b4b4"/></radialGradient>';
+    case 'none':
+      return null;
+  }
+}
+
+function detailsSvg(template: MockupTemplate, width: number, height: number): string {
+  const paths = (template.details ?? []).map(d =>
+    `<path d="${d.path}" fill="${d.fill ?? 'none'}" stroke="${d.stroke}" stroke-width="${d.width}"${d.dash ? ` stroke-dasharray="${d.dash}"` : ''}/>`
+  );
+  return svg(width, height, paths.join(''));
+}
+
+function svg(width: number, height: number, body: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${body}</svg>`;
+}
+
+/**
+ * Inverse-map each output pixel into the fitted design. The cylinder warp compresses the design towards the sides
+ * (x = sin(θs)/sin θ) and bends rows by `bend` pixels at the edges; the fabric relief nudges samples and modulates
+ * brightness so the stitches sit in the weave. Sampling is bilinear on premultiplied RGBA.
+ */
+function warpDesign(
+  src: Buffer, srcW: number, srcH: number, outW: number, outH: number,
+  template: MockupTemplate, bend: number, relief: Float32Array | null
+): Buffer {
+  const out = Buffer.alloc(outW * outH * 4);
+  const theta = template.warp ? Math.max(0.01, Math.min(1.4, template.warp.curvature)) : 0;
+  const sinTheta = Math.sin(theta);
+  const amount = template.displacement?.amount ?? 0;
+  const half = srcW / 2;
+
+  for (let y = 0; y < outH; y++) {
+    for (let x = 0; x < outW; x++) {
+      const nx = (x + 0.5 - half) / half;
+      let sx = x + 0.5, sy = y + 0.5, shade = 1;
+      if (theta > 0) {
+        const s = Math.asin(Math.max(-1, Math.min(1, nx * sinTheta))) / theta;
+        sx = half + s * half;
+        sy -= bend * nx * nx;
+        shade = 1 - WARP_EDGE_SHADE * (1 - Math.cos(theta * s));
+      }
+      if (relief) {
+        const r = relief[y * outW + x]! - 0.5;
+        sx += r * amount;
+        sy += r * amount;
+        shade *= 1 + r * 2 * DISPLACEMENT_SHADE;
+      }
+
+      const px = sampleBilinear(src, srcW, srcH, sx - 0.5, sy - 0.5);
+      const p = (y * outW + x) * 4;
+      const a = px[3];
+      if (a <= 0) continue;
+      out[p] = Math.max(0, Math.min(255, Math.round((px[0] / a) * shade)));
+      out[p + 1] = Math.max(0, Math.min(255, Math.round((px[1] / a) * shade)));
+      out[p + 2] = Math.max(0, Math.min(255, Math.round((px[2] / a) * shade)));
+      out[p + 3] = Math.min(255, Math.round(a * 255));
+    }
+  }
+  return out;
+}
+
+// Premultiplied sample: rgb scaled by alpha in [0, 1]; outside the source is transparent
+function sampleBilinear(src: Buffer, w: number, h: number, x: number, y: number): [number, number, number, number] {
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  const tx = x - x0, ty = y - y0;
+  const acc: [number, number, number, number] = [0, 0, 0, 0];
+  for (let j = 0; j < 2; j++) {
+    const yy = y0 + j;
+    if (yy < 0 || yy >= h) continue;
+    const wy = j ? ty : 1 - ty;
+    for (let i = 0; i < 2; i++) {
+      const xx = x0 + i;
+      if (xx < 0 || xx >= w) continue;
+      const weight = wy * (i ? tx : 1 - tx);
+      const p = (yy * w + xx) * 4;
+      const a = (src[p + 3]! / 255) * weight;
+      acc[0] += src[p]! * a;
+      acc[1] += src[p + 1]! * a;
+      acc[2] += src[p + 2]! * a;
+      acc[3] += a;
+    }
+  }
+  return acc;
+}
+
+/**
+ * Soft shadow from the placed design's alpha, drawn on a template-sized layer so offsets and blur never clip
+ */
+async function dropShadow(
+  placed: Buffer, outW: number, outH: number, left: number, top: number, width: number, height: number,
+  shadow: NonNullable<MockupTemplate['shadow']>
+): Promise<sharp.OverlayOptions> {
+  const layer = Buffer.alloc(width * height * 4);
+  const ox = left + Math.round(shadow.offsetX), oy = top + Math.round(shadow.offsetY);
+  for (let y = 0; y < outH; y++) {
+    const ty = oy + y;
+    if (ty < 0 || ty >= height) continue;
+    for (let x = 0; x < outW; x++) {
+      const tx = ox + x;
+      if (tx < 0 || tx >= width) continue;
+      layer[(ty * width + tx) * 4 + 3] = Math.round(placed[(y * outW + x) * 4 + 3]! * shadow.opacity);
+    }
+  }
+  const image = sharp(layer, { raw: { width, height, channels: 4 } });
+  const blurred = shadow.blur >= 0.3 ? await image.blur(shadow.blur).raw().toBuffer() : layer;
+  return { input: blurred, raw: { width, height, channels: 4 } };
+}
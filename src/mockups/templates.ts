@@ -0,0 +1,94 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+export interface MockupLayer {
+  // SVG path in template pixels
+  path: string;
+  fabric: string;
+  hex?: string;
+  shading?: 'cylinder' | 'radial' | 'none';
+}
+
+export interface MockupDetail {
+  path: string;
+  stroke: string;
+  width: number;
+  dash?: string;
+  fill?: string;
+}
+
+export interface MockupTemplate {
+  name: string;
+  description: string;
+  width: number;
+  height: number;
+  pixelsPerMm: number;
+  backdrop: string;
+  threadThickness?: number;
+  layers: MockupLayer[];
+  details?: MockupDetail[];
+  // Placement box center in template pixels; size is the largest design area in millimetres
+  placement: { x: number; y: number; widthMm: number; heightMm: number };
+  warp?: { type: 'cylinder'; curvature: number; bendMm: number };
+  displacement?: { fabric: string; hex?: string; amount: number };
+  shadow?: { offsetX: number; offsetY: number; blur: number; opacity: number };
+}
+
+// Templates are JSON files named <template>.json; ship with the service under assets/mockups
+const TEMPLATE_DIR = path.resolve(process.env.MOCKUPS_DIR || 'assets/mockups');
+const TEMPLATE_NAME = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+const templates = new Map<string, { template: MockupTemplate; version: string }>();
+
+export function listTemplates(): MockupTemplate[] {
+  if (!fs.existsSync(TEMPLATE_DIR)) return [];
+  return fs.readdirSync(TEMPLATE_DIR)
+    .filter(entry => entry.endsWith('.json'))
+    .sort()
+    .map(entry => getTemplate(entry.slice(0, -'.json'.length)))
+    .filter((t): t is MockupTemplate => t !== undefined);
+}
+
+export function hasTemplate(name: string): boolean {
+  return TEMPLATE_NAME.test(name) && fs.existsSync(path.join(TEMPLATE_DIR, `${name}.json`));
+}
+
+/**
+ * Version of a template file: its modification time and size, empty when there is no such template
+ */
+export function templateVersion(name: string): string {
+  if (!TEMPLATE_NAME.test(name)) return '';
+  const stat = fs.statSync(path.join(TEMPLATE_DIR, `${name}.json`), { throwIfNoEntry: false });
+  return stat ? `${stat.mtimeMs}:${stat.size}` : '';
+}
+
+/**
+ * Fabrics a template's layers and displacement are cut from
+ */
+export function templateFabrics(template: MockupTemplate): string[] {
+  return [...template.layers.map(layer => layer.fabric), ...(template.displacement ? [template.displacement.fabric] : [])];
+}
+
+/**
+ * Load a template by name, cached until its file changes. Malformed files are logged and treated as missing.
+ */
+export function getTemplate(name: string): MockupTemplate | undefined {
+  const version = templateVersion(name);
+  if (!version) return undefined;
+  const cached = templates.get(name);
+  if (cached?.version === version) return cached.template;
+
+  const file = path.join(TEMPLATE_DIR, `${name}.json`);
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const template = { ...raw, name } as MockupTemplate;
+    if (!(template.width > 0 && template.height > 0 && template.pixelsPerMm > 0) || !Array.isArray(template.layers) || !template.placement) {
+      throw new Error('width, height, pixelsPerMm, layers and placement are required');
+    }
+    templates.set(name, { template, version });
+    return template;
+  } catch (error) {
+    console.warn(JSON.stringify({ level: 'warn', msg: 'mockups.rejected', name, file, problem: error instanceof Error ? error.message : String(error) }));
+    return undefined;
+  }
+}
@@ -0,0 +1,361 @@
+import { OPTIONS_SCHEMA, toJsonSchema } from './options.ts';
+import { STITCH_FORMATS } from './formats/stitchFile.ts';
+import { EMBROIDERY_STAGES } from './pipeline/stages.ts';
+
+/**
+ * OpenAPI 3.0 description of the HTTP API; option shapes come straight from OPTIONS_SCHEMA
+ */
+export function buildOpenApiDocument(): Record<string, unknown> {
+  const optionsForm = {
+    'multipart/form-data': {
+      schema: {
+        type: 'object',
+        required: ['image'],
+        properties: {
+          image: { type: 'string', format: 'binary', description: 'PNG or JPG image' },
+          options: { type: 'string', description: 'JSON-encoded EmbroideryOptions', 'x-json-schema': { $ref: '#/components/schemas/EmbroideryOptions' } },
+          preset: { type: 'string', description: 'Preset to use as the base for options' }
+        }
+      }
+    }
+  };
+  const presetParam = { name: 'preset', in: 'query', required: false, schema: { type: 'string' }, description: 'Preset to use as the base for options' };
+  const badRequest = { description: 'Invalid options', content: { 'application/json': { schema: { $ref: '#/components/schemas/OptionsError' } } } };
+  const busy = { description: 'Render queue full; retry after the Retry-After header', headers: { 'Retry-After': { schema: { type: 'integer' } } } };
+  const jobIdParam = { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } };
+  const jobResponse = { content: { 'application/json': { schema: { $ref: '#/components/schemas/Job' } } } };
+  const notFound = { description: 'Unknown job' };
+  const clampedHeader = { 'X-Clamped-Options': { description: 'Out-of-range values that were clamped, as `path=from->to`', schema: { type: 'string' } } };
+
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Embroidery Filter API', version: '1.0.0' },
+    paths: {
+      '/filter/embroidery': {
+        post: {
+          summary: 'Render an embroidery mockup',
+          parameters: [
+            presetParam,
+            { name: 'response', in: 'query', required: false, schema: { type: 'string', enum: ['image', 'json', 'multipart'] } },
+            { name: 'If-None-Match', in: 'header', required: false, schema: { type: 'string' }, description: 'ETag of an earlier response for the same upload and options' },
+            { name: 'X-Cache-Bypass', in: 'header', required: false, schema: { type: 'string', enum: ['1', 'true'] }, description: 'Render afresh instead of using the result cache' }
+          ],
+          requestBody: { required: true, content: optionsForm },
+          responses: {
+            200: {
+              description: 'Rendered image (format from output.format, else Accept, else the input), JSON sidecar or multipart/mixed depending on Accept / ?response=',
+              headers: {
+                ...clampedHeader,
+                ETag: { description: 'Content address of the upload, resolved options and response shape', schema: { type: 'string' } },
+                'X-Cache': { description: 'Result cache outcome', schema: { type: 'string', enum: ['HIT', 'MISS', 'BYPASS'] } }
+              },
+              content: {
+                'image/png': { schema: { type: 'string', format: 'binary' } },
+                'image/jpeg': { schema: { type: 'string', format: 'binary' } },
+                'image/webp': { schema: { type: 'string', format: 'binary' } },
+                'image/avif': { schema: { type: 'string', format: 'binary' } },
+                'application/json': { schema: { $ref: '#/components/schemas/EmbroideryJsonResponse' } },
+                'multipart/mixed': { schema: { type: 'string', format: 'binary' } },
+                'application/zip': { schema: { type: 'string', format: 'binary', description: 'Intermediate layers, timings and result when debug.layers is set' } }
+              }
+            },
+            304: { description: 'If-None-Match matched; nothing was rendered' },
+            400: badRequest,
+            503: busy
+          }
+        }
+      },
+      '/filter/embroidery/batch': {
+        post: {
+          summary: 'Render several images and/or option sets in one request, sharing analysis stages between variants',
+          parameters: [
+            presetParam,
+            { name: 'response', in: 'query', required: false, schema: { type: 'string', enum: ['zip', 'multipart'] } }
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['images'],
+                  properties: {
+                    images: { type: 'array', items: { type: 'string', format: 'binary' }, maxItems: 10, description: 'PNG or JPG images' },
+                    options: {
+                      type: 'string',
+                      description: 'JSON-encoded EmbroideryOptions for every image, or an array of up to 16 option sets; every image is rendered with every set (at most 40 items)',
+                      'x-json-schema': { oneOf: [{ $ref: '#/components/schemas/EmbroideryOptions' }, { type: 'array', items: { $ref: '#/components/schemas/EmbroideryOptions' } }] }
+                    },
+                    preset: { type: 'string', description: 'Preset to use as the base for every option set' }
+                  }
+                }
+              }
+            }
+          },
+          responses: {
+            200: {
+              description: 'One file per rendered item plus manifest.json (per-item meta or error), as a ZIP or multipart/mixed depending on Accept / ?response=',
+              headers: {
+                ...clampedHeader,
+                'X-Batch-Items': { schema: { type: 'integer' } },
+                'X-Batch-Errors': { description: 'Items that failed; see the manifest', schema: { type: 'integer' } }
+              },
+              content: {
+                'application/zip': { schema: { type: 'string', format: 'binary' } },
+                'multipart/mixed': { schema: { type: 'string', format: 'binary' } }
+              }
+            },
+            400: badRequest,
+            503: busy
+          }
+        }
+      },
+      '/filter/embroidery/stitches': {
+        post: {
+          summary: 'Export a machine-embroidery stitch file',
+          parameters: [
+            presetParam,
+            { name: 'format', in: 'query', required: false, schema: { type: 'string', enum: Object.keys(STITCH_FORMATS), default: 'dst' } }
+          ],
+          requestBody: { required: true, content: optionsForm },
+          responses: {
+            200: {
+              description: 'Stitch file',
+              headers: clampedHeader,
+              content: Object.fromEntries(Object.values(STITCH_FORMATS).map(f => [f.mime, { schema: { type: 'string', format: 'binary' } }]))
+            },
+            400: badRequest,
+            503: busy
+          }
+        }
+      },
+      '/filter/embroidery/estimate': {
+        post: {
+          summary: 'Estimate stitch count, thread usage and machine run time without rendering',
+          parameters: [presetParam],
+          requestBody: { required: true, content: optionsForm },
+          responses: {
+            200: {
+              description: 'Production estimate',
+              headers: clampedHeader,
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/EstimateResponse' } } }
+            },
+            400: badRequest,
+            503: busy
+          }
+        }
+      },
+      '/filter/embroidery/analyze': {
+        post: {
+          summary: 'Highlight problem areas (thin strokes, narrow gaps, tiny islands, small text, dense detail, merged colors)',
+          parameters: [
+            presetParam,
+            { name: 'response', in: 'query', required: false, schema: { type: 'string', enum: ['image', 'json', 'multipart'] } }
+          ],
+          requestBody: { required: true, content: optionsForm },
+          responses: {
+            200: {
+              description: 'PNG overlay with a legend strip, JSON sidecar or multipart/mixed depending on Accept / ?response=',
+              headers: clampedHeader,
+              content: {
+                'image/png': { schema: { type: 'string', format: 'binary' } },
+                'application/json': { schema: { $ref: '#/components/schemas/EmbroideryJsonResponse' } },
+                'multipart/mixed': { schema: { type: 'string', format: 'binary' } }
+              }
+            },
+            400: badRequest,
+            503: busy
+          }
+        }
+      },
+      '/jobs': {
+        post: {
+          summary: 'Queue an embroidery render; poll the job or pass a webhook to be called when it finishes',
+          parameters: [presetParam],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['image'],
+                  properties: {
+                    ...optionsForm['multipart/form-data'].schema.properties,
+                    webhook: { type: 'string', format: 'uri', description: 'http(s) URL that receives the finished job as a JSON POST' }
+                  }
+                }
+              }
+            }
+          },
+          responses: {
+            202: { description: 'Job queued', headers: { ...clampedHeader, Location: { schema: { type: 'string' } } }, ...jobResponse },
+            400: badRequest,
+            503: busy
+          }
+        }
+      },
+      '/jobs/{id}': {
+        get: {
+          summary: 'Job status and per-stage progress',
+          parameters: [jobIdParam],
+          responses: { 200: { description: 'Job', ...jobResponse }, 404: notFound }
+        },
+        delete: {
+          summary: 'Cancel a queued or running job, or delete a finished one and its result',
+          parameters: [jobIdParam],
+          responses: { 200: { description: 'Job cancelled', ...jobResponse }, 204: { description: 'Finished job deleted' }, 404: notFound }
+        }
+      },
+      '/jobs/{id}/result': {
+        get: {
+          summary: 'Rendered result of a succeeded job, in the same shapes as POST /filter/embroidery',
+          parameters: [
+            jobIdParam,
+            { name: 'response', in: 'query', required: false, schema: { type: 'string', enum: ['image', 'json', 'multipart'] } }
+          ],
+          responses: {
+            200: { description: 'Rendered image, JSON sidecar, multipart/mixed, or the layer ZIP for debug.layers jobs' },
+            404: { description: 'Unknown job, or its result has expired' },
+            409: { description: 'Job has not succeeded (yet)', ...jobResponse }
+          }
+        }
+      },
+      '/fabrics': {
+        get: { summary: 'List procedural and uploaded fabrics', responses: { 200: { description: 'Fabric library' } } },
+        post: {
+          summary: 'Upload a fabric photo for use as background.name',
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['image', 'name'],
+                  properties: {
+                    image: { type: 'string', format: 'binary', description: 'Fabric photo, shot at roughly the scale of a 3px thread' },
+                    name: { type: 'string', pattern: '^[a-z0-9][a-z0-9-]{0,39}$' }
+                  }
+                }
+              }
+            }
+          },
+          responses: { 201: { description: 'Fabric stored' }, 400: { description: 'Invalid name or image' }, 409: { description: 'Name taken by a built-in fabric' } }
+        }
+      },
+      '/mockups': {
+        get: { summary: 'List product mockup templates for options.mockup', responses: { 200: { description: 'Mockup templates' } } }
+      },
+      '/presets': {
+        get: { summary: 'List available presets', responses: { 200: { description: 'Preset catalogue' } } }
+      },
+      '/health': {
+        get: { summary: 'Health check', responses: { 200: { description: 'Service health' } } }
+      }
+    },
+    components: {
+      schemas: {
+        EmbroideryOptions: toJsonSchema(OPTIONS_SCHEMA),
+        OptionsError: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  code: { type: 'string', enum: ['invalid_json', 'invalid_type', 'invalid_value', 'out_of_range', 'unknown_field', 'required', 'unknown_preset'] },
+                  message: { type: 'string' }
+                }
+              }
+            }
+          }
+        },
+        Job: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'] },
+            createdAt: { type: 'string', format: 'date-time' },
+            startedAt: { type: 'string', format: 'date-time' },
+            finishedAt: { type: 'string', format: 'date-time' },
+            progress: {
+              type: 'object',
+              properties: {
+                percent: { type: 'integer' },
+                stages: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string', enum: [...EMBROIDERY_STAGES] },
+                      status: { type: 'string', enum: ['pending', 'done'] },
+                      ms: { type: 'number' }
+                    }
+                  }
+                }
+              }
+            },
+            webhook: { type: 'string', format: 'uri' },
+            error: { type: 'string' },
+            result: {
+              type: 'object',
+              properties: { mime: { type: 'string' }, size: { type: 'integer' }, filename: { type: 'string' }, meta: { type: 'object' } }
+            },
+            links: { type: 'object', properties: { self: { type: 'string' }, result: { type: 'string' } } }
+          }
+        },
+        EstimateResponse: {
+          type: 'object',
+          properties: {
+            processingTime: { type: 'number' },
+            estimate: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer' },
+                colors: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      index: { type: 'integer' },
+                      color: { type: 'object' },
+                      thread: { type: 'string' },
+                      areaMm2: { type: 'number' },
+                      fillStitches: { type: 'integer' },
+                      satinStitches: { type: 'integer' },
+                      runningStitches: { type: 'integer' },
+                      stitches: { type: 'integer' },
+                      threadLengthM: { type: 'number' }
+                    }
+                  }
+                },
+                colorChanges: { type: 'integer' },
+                trims: { type: 'integer' },
+                threadLengthM: { type: 'number' },
+                spm: { type: 'integer' },
+                runTimeMinutes: { type: 'number' }
+              }
+            },
+            physicalSize: {
+              type: 'object',
+              properties: { widthMm: { type: 'number' }, heightMm: { type: 'number' }, dpi: { type: 'integer' }, pixelsPerMm: { type: 'number' } }
+            },
+            palette: { type: 'array', items: { type: 'object' } },
+            threads: { type: 'array', items: { type: 'object' } }
+          }
+        },
+        EmbroideryJsonResponse: {
+          type: 'object',
+          properties: {
+            image: { type: 'string', format: 'byte' },
+            mime: { type: 'string' },
+            meta: { type: 'object' }
+          }
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,488 @@
+import type { EmbroideryOptions } from './workers/types.ts';
+import { THREAD_CATALOGS, type ThreadCatalogId } from './threads/catalogs.ts';
+import { hasFabric } from './fabrics/library.ts';
+import { hasTemplate } from './mockups/templates.ts';
+
+// Raw client options as sent in the `options` form field or stored in a preset; resolveOptions() turns them into EmbroideryOptions
+export interface RequestOptions {
+  maxColors?: number;
+  threadThickness?: number;
+  preserveTransparency?: boolean;
+  warnSmallDetails?: boolean;
+  hatch?: 'none' | 'diagonal' | 'cross';
+  fill?: {
+    type?: 'auto' | 'tatami' | 'satin' | 'cross' | 'applique';
+    satinMaxWidthMm?: number;
+    tatami?: { angle?: number; offset?: number };
+    cross?: { cellMm?: number };
+    overrides?: Array<{ index: number; type?: 'auto' | 'tatami' | 'satin' | 'cross' | 'applique'; angle?: number }>;
+  };
+  background?: {
+    type: 'color' | 'fabric';
+    hex?: string;
+    name?: string;
+  } | null;
+  style?: {
+    orientation?: 'binned-8' | 'lic';
+    edges?: 'canny' | 'xdog';
+    mode?: 'photo' | 'logo';
+    xdog?: { sigma?: number; k?: number; tau?: number; phi?: number };
+  };
+  lighting?: { sheen?: number; direction?: number; material?: 'matte' | 'rayon' | 'metallic' };
+  border?: { stitch?: boolean; width?: number; style?: 'auto' | 'running' | 'satin' | 'bean' | 'merrow'; color?: string };
+  density?: { scale?: number };
+  grain?: { randomness?: number };
+  seed?: number;
+  quantize?: { method?: 'frequency' | 'median-cut' | 'kmeans' | 'wu'; seed?: number; protectAccents?: boolean };
+  threads?: { catalog?: ThreadCatalogId; snap?: boolean };
+  palette?: {
+    fixed?: string[];
+    mode?: 'exact' | 'seed';
+    replace?: Array<{ index?: number; from?: string; to?: string; thread?: string }>;
+  };
+  machine?: { spm?: number };
+  output?: { format?: 'auto' | 'png' | 'jpeg' | 'webp' | 'avif'; quality?: number };
+  size?: { widthMm?: number; heightMm?: number; dpi?: number };
+  mockup?: {
+    template: string;
+    placement?: { widthMm?: number; heightMm?: number; offsetXMm?: number; offsetYMm?: number };
+  } | null;
+  debug?: { layers?: boolean };
+}
+
+export interface FieldError { path: string; code: 'invalid_json' | 'invalid_type' | 'invalid_value' | 'out_of_range' | 'unknown_field' | 'required' | 'unknown_preset'; message: string }
+
+export interface ClampNotice { path: string; from: number; to: number }
+
+export interface OptionsError { error: string; message: string; errors: FieldError[] }
+
+// Declarative option schema: drives validation, defaults, clamping and the OpenAPI document
+export type FieldSchema =
+  | { type: 'number'; description: string; integer?: boolean; min: number; max: number; clamp?: boolean; default?: number }
+  | { type: 'boolean'; description: string; default?: boolean }
+  | { type: 'string'; description: string; pattern?: RegExp }
+  | { type: 'enum'; description: string; values: readonly string[]; default?: string }
+  | { type: 'array'; description: string; items: FieldSchema; minItems?: number; maxItems?: number }
+  | { type: 'object'; description: string; properties: Record<string, FieldSchema>; nullable?: boolean; check?: (value: Record<string, unknown>, path: string) => FieldError[] };
+
+const HEX_COLOR = /^#?[0-9a-fA-F]{6}$/;
+const FILL_TYPES = ['tatami', 'satin', 'cross', 'applique'] as const;
+
+export const OPTIONS_SCHEMA: Extract<FieldSchema, { type: 'object' }> = {
+  type: 'object',
+  description: 'Embroidery rendering options',
+  properties: {
+    maxColors: { type: 'number', description: 'Maximum palette size', integer: true, min: 2, max: 12, clamp: true, default: 8 },
+    threadThickness: { type: 'number', description: 'Thread thickness in pixels (derived from the physical scale when size is set)', integer: true, min: 1, max: 10, clamp: true, default: 3 },
+    preserveTransparency: { type: 'boolean', description: 'Keep the alpha channel instead of compositing on a background', default: true },
+    warnSmallDetails: { type: 'boolean', description: 'Flag details that will not embroider well', default: true },
+    hatch: { type: 'enum', description: 'Fill of wide regions when fill.type is auto: tatami (diagonal), cross-stitch (cross) or flat (none)', values: ['none', 'diagonal', 'cross'], default: 'diagonal' },
+    fill: {
+      type: 'object',
+      description: 'Fill stitch per color region',
+      properties: {
+        type: { type: 'enum', description: '"auto" uses satin for regions narrower than satinMaxWidthMm and the hatch fill elsewhere', values: ['auto', ...FILL_TYPES], default: 'auto' },
+        satinMaxWidthMm: { type: 'number', description: 'Widest region filled with satin in auto mode', min: 0.5, max: 12, default: 6 },
+        tatami: {
+          type: 'object',
+          description: 'Tatami fill rows',
+          properties: {
+            angle: { type: 'number', description: 'Row angle in degrees (defaults to each region\'s thread direction)', min: 0, max: 180 },
+            offset: { type: 'number', description: 'Needle point stagger between rows, as a fraction of the stitch length (default 1/3)', min: 0, max: 1 }
+          }
+        },
+        cross: {
+          type: 'object',
+          description: 'Cross-stitch grid',
+          properties: { cellMm: { type: 'number', description: 'Grid cell size in millimetres', min: 1, max: 6, default: 2 } }
+        },
+        overrides: {
+          type: 'array',
+          description: 'Fill type or row angle for individual palette entries',
+          maxItems: 12,
+          items: {
+            type: 'object',
+            description: 'Palette index with its fill type and/or tatami angle',
+            properties: {
+              index: { type: 'number', description: 'Palette index as reported in the response metadata', integer: true, min: 0, max: 11 },
+              type: { type: 'enum', description: 'Fill type for this color', values: ['auto', ...FILL_TYPES] },
+              angle: { type: 'number', description: 'Tatami row angle in degrees for this color', min: 0, max: 180 }
+            },
+            check: (value, path) => {
+              const errors: FieldError[] = [];
+              if (value.index === undefined) errors.push({ path: `${path}.index`, code: 'required', message: `${path}.index is required` });
+              if (value.type === undefined && value.angle === undefined) errors.push({ path, code: 'invalid_value', message: `${path} needs type or angle` });
+              return errors;
+            }
+          }
+        }
+      }
+    },
+    background: {
+      type: 'object',
+      description: 'Background used when transparency is not preserved',
+      nullable: true,
+      properties: {
+        type: { type: 'enum', description: 'Background kind', values: ['color', 'fabric'] },
+        hex: { type: 'string', description: 'Background color as #RRGGBB; recolors procedural fabrics', pattern: HEX_COLOR },
+        name: { type: 'string', description: 'Fabric name from GET /fabrics' }
+      },
+      check: (value, path) => {
+        if (value.type === undefined) return [{ path: `${path}.type`, code: 'required', message: `${path}.type is required` }];
+        if (value.type === 'color' && !value.hex) return [{ path: `${path}.hex`, code: 'required', message: `${path}.hex is required when ${path}.type is "color"` }];
+        if (value.type === 'fabric' && !value.name) return [{ path: `${path}.name`, code: 'required', message: `${path}.name is required when ${path}.type is "fabric"` }];
+        if (value.type === 'fabric' && typeof value.name === 'string' && !hasFabric(value.name)) {
+          return [{ path: `${path}.name`, code: 'invalid_value', message: `${path}.name "${value.name}" is not a known fabric (see GET /fabrics)` }];
+        }
+        return [];
+      }
+    },
+    style: {
+      type: 'object',
+      description: 'Processing style',
+      properties: {
+        orientation: { type: 'enum', description: 'Thread orientation method', values: ['binned-8', 'lic'], default: 'binned-8' },
+        edges: { type: 'enum', description: 'Edge detector', values: ['canny', 'xdog'], default: 'canny' },
+        mode: { type: 'enum', description: 'Tuning for photos or flat logos', values: ['photo', 'logo'], default: 'photo' },
+        xdog: {
+          type: 'object',
+          description: 'XDoG tunables, used when edges is "xdog"',
+          properties: {
+            sigma: { type: 'number', description: 'Base Gaussian sigma in analysis pixels', min: 0.3, max: 5, default: 0.8 },
+            k: { type: 'number', description: 'Ratio between the two Gaussian sigmas', min: 1.1, max: 5, default: 1.6 },
+            tau: { type: 'number', description: 'Weight of the wider Gaussian; closer to 1 keeps fewer edges', min: 0.8, max: 1, default: 0.98 },
+            phi: { type: 'number', description: 'Soft-threshold sharpness', min: 0.5, max: 200, default: 10 }
+          }
+        }
+      }
+    },
+    lighting: {
+      type: 'object',
+      description: 'Lighting',
+      properties: {
+        sheen: { type: 'number', description: 'Specular highlight strength; 0 turns directional lighting off', min: 0, max: 1, default: 0.25 },
+        direction: { type: 'number', description: 'Compass direction the light comes from in degrees (0 top, 90 right)', min: 0, max: 360, default: 315 },
+        material: { type: 'enum', description: 'Thread material: matte cotton, rayon or metallic', values: ['matte', 'rayon', 'metallic'], default: 'rayon' }
+      }
+    },
+    border: {
+      type: 'object',
+      description: 'Stitched rim around the design',
+      properties: {
+        stitch: { type: 'boolean', description: 'Draw the stitched rim', default: true },
+        width: { type: 'number', description: 'Rim width in pixels (defaults to threadThickness)', min: 1, max: 40 },
+        style: { type: 'enum', description: 'Rim stitch: running, satin column, bean (triple running) or merrow (patch overlock); auto picks satin from 1mm wide', values: ['auto', 'running', 'satin', 'bean', 'merrow'], default: 'auto' },
+        color: { type: 'string', description: 'Rim thread color as #RRGGBB (defaults to the darkest palette color)', pattern: HEX_COLOR }
+      }
+    },
+    density: {
+      type: 'object',
+      description: 'Stitch density',
+      properties: { scale: { type: 'number', description: 'Global stitch density multiplier', min: 0.5, max: 2, default: 1 } }
+    },
+    grain: {
+      type: 'object',
+      description: 'Thread grain',
+      properties: { randomness: { type: 'number', description: 'Thread jitter, per-stitch brightness variance and angle noise (0 for perfectly regular threads)', min: 0, max: 0.5, default: 0.15 } }
+    },
+    seed: { type: 'number', description: 'Seed for grain and LIC noise (a hash of the input image when unset); the same input, options and seed render identically', integer: true, min: 0, max: 4294967295 },
+    quantize: {
+      type: 'object',
+      description: 'Palette reduction',
+      properties: {
+        method: { type: 'enum', description: 'Quantizer: frequency buckets, median cut, k-means++ in CIELAB or Wu', values: ['frequency', 'median-cut', 'kmeans', 'wu'], default: 'kmeans' },
+        seed: { type: 'number', description: 'Seed for k-means++ initialisation', integer: true, min: 0, max: 4294967295, default: 1 },
+        protectAccents: { type: 'boolean', description: 'Keep rare colors that differ strongly from the rest of the palette', default: true }
+      }
+    },
+    threads: {
+      type: 'object',
+      description: 'Map the palette to a thread catalog',
+      properties: {
+        catalog: { type: 'enum', description: 'Thread catalog used for matching', values: Object.keys(THREAD_CATALOGS) },
+        snap: { type: 'boolean', description: 'Recolor the mockup with the matched threads (otherwise only report them)', default: true }
+      }
+    },
+    palette: {
+      type: 'object',
+      description: 'Caller-supplied palette and recolor rules',
+      properties: {
+        fixed: { type: 'array', description: 'Brand colors as #RRGGBB', items: { type: 'string', description: 'Color as #RRGGBB', pattern: HEX_COLOR }, minItems: 1, maxItems: 12 },
+        mode: { type: 'enum', description: '"exact" maps pixels strictly to the fixed colors; "seed" starts k-means from them', values: ['exact', 'seed'], default: 'exact' },
+        replace: {
+          type: 'array',
+          description: 'Recolor rules applied to the final palette before textures and edges are generated',
+          maxItems: 12,
+          items: {
+            type: 'object',
+            description: 'Select a palette entry with index or from, and recolor it with to or thread',
+            properties: {
+              index: { type: 'number', description: 'Palette index as reported in the response metadata', integer: true, min: 0, max: 11 },
+              from: { type: 'string', description: 'Recolor the palette entry nearest to this #RRGGBB color', pattern: HEX_COLOR },
+              to: { type: 'string', description: 'New color as #RRGGBB', pattern: HEX_COLOR },
+              thread: { type: 'string', description: 'New color as a thread code from threads.catalog' }
+            },
+            check: (value, path) => {
+              const errors: FieldError[] = [];
+              if ((value.index === undefined) === (value.from === undefined)) errors.push({ path, code: 'invalid_value', message: `${path} needs exactly one of index or from` });
+              if ((value.to === undefined) === (value.thread === undefined)) errors.push({ path, code: 'invalid_value', message: `${path} needs exactly one of to or thread` });
+              return errors;
+            }
+          }
+        }
+      }
+    },
+    machine: {
+      type: 'object',
+      description: 'Embroidery machine used for run-time estimates',
+      properties: { spm: { type: 'number', description: 'Sewing speed in stitches per minute', integer: true, min: 200, max: 1500, default: 800 } }
+    },
+    output: {
+      type: 'object',
+      description: 'Encoded image format',
+      properties: {
+        format: { type: 'enum', description: '"auto" follows the Accept header, then the input format (PNG when transparency must be kept)', values: ['auto', 'png', 'jpeg', 'webp', 'avif'], default: 'auto' },
+        quality: { type: 'number', description: 'Lossy encoder quality (JPEG 85, WebP 82, AVIF 50 when unset)', integer: true, min: 1, max: 100 }
+      }
+    },
+    size: {
+      type: 'object',
+      description: 'Physical design size; sets the render resolution, thread width and stitch scale',
+      properties: {
+        widthMm: { type: 'number', description: 'Design width in millimetres', min: 5, max: 1000 },
+        heightMm: { type: 'number', description: 'Design height in millimetres (with widthMm, the design fits inside both)', min: 5, max: 1000 },
+        dpi: { type: 'number', description: 'Render resolution in dots per inch (254, i.e. 10 px/mm, when unset)', min: 50, max: 1200 }
+      }
+    },
+    mockup: {
+      type: 'object',
+      description: 'Place the result on a product template instead of a flat background',
+      nullable: true,
+      properties: {
+        template: { type: 'string', description: 'Template name from GET /mockups' },
+        placement: {
+          type: 'object',
+          description: 'Design box on the product; defaults come from the template',
+          properties: {
+            widthMm: { type: 'number', description: 'Maximum design width in millimetres', min: 10, max: 400 },
+            heightMm: { type: 'number', description: 'Maximum design height in millimetres', min: 10, max: 400 },
+            offsetXMm: { type: 'number', description: 'Horizontal shift from the template placement center in millimetres', min: -200, max: 200, default: 0 },
+            offsetYMm: { type: 'number', description: 'Vertical shift from the template placement center in millimetres', min: -200, max: 200, default: 0 }
+          }
+        }
+      },
+      check: (value, path) => {
+        if (value.template === undefined) return [{ path: `${path}.template`, code: 'required', message: `${path}.template is required` }];
+        if (typeof value.template === 'string' && !hasTemplate(value.template)) {
+          return [{ path: `${path}.template`, code: 'invalid_value', message: `${path}.template "${value.template}" is not a known template (see GET /mockups)` }];
+        }
+        return [];
+      }
+    },
+    debug: {
+      type: 'object',
+      description: 'Troubleshooting output',
+      properties: {
+        layers: { type: 'boolean', description: 'Return a ZIP of every intermediate layer, the timings and the result instead of the image', default: false }
+      }
+    }
+  },
+  check: (value) => {
+    // Thread codes in palette.replace are resolved against threads.catalog
+    const replace = isPlainObject(value.palette) && Array.isArray(value.palette.replace) ? value.palette.replace : [];
+    const catalog = isPlainObject(value.threads) ? value.threads.catalog : undefined;
+    const errors: FieldError[] = [];
+    replace.forEach((rule: unknown, i) => {
+      if (!isPlainObject(rule) || typeof rule.thread !== 'string') return;
+      const path = `palette.replace[${i}].thread`;
+      if (typeof catalog !== 'string' || !(catalog in THREAD_CATALOGS)) {
+        errors.push({ path, code: 'required', message: `${path} requires threads.catalog` });
+      } else if (!THREAD_CATALOGS[catalog as ThreadCatalogId].threads.some(t => t.code === rule.thread)) {
+        errors.push({ path, code: 'invalid_value', message: `${path} "${rule.thread}" is not in the ${catalog} catalog` });
+      }
+    });
+    return errors;
+  }
+};
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Recursively merge plain objects; anything else in `override` (including null and arrays) replaces the base value
+ */
+export function deepMerge<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) return (override === undefined ? base : override) as T;
+  const out: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    out[key] = deepMerge(out[key], value);
+  }
+  return out as T;
+}
+
+/**
+ * Validate raw options against the schema, filling defaults and clamping where the schema allows it
+ */
+export function validateOptions(raw: unknown): { value: RequestOptions; errors: FieldError[]; clamped: ClampNotice[] } {
+  const errors: FieldError[] = [];
+  const clamped: ClampNotice[] = [];
+  const value = validateField(raw ?? {}, OPTIONS_SCHEMA, '', errors, clamped) as RequestOptions;
+  // Checked after clamping: the palette never grows past maxColors (or the fixed colors), so such a rule cannot apply
+  const paletteSize = Math.max(value.maxColors ?? 0, value.palette?.fixed?.length ?? 0);
+  value.palette?.replace?.forEach((rule, i) => {
+    if (rule?.index === undefined || rule.index < paletteSize) return;
+    const path = `palette.replace[${i}].index`;
+    errors.push({ path, code: 'out_of_range', message: `${path} must be below the ${paletteSize}-color palette size` });
+  });
+  return { value, errors, clamped };
+}
+
+function validateField(value: unknown, schema: FieldSchema, path: string, errors: FieldError[], clamped: ClampNotice[]): unknown {
+  const label = path || 'options';
+  switch (schema.type) {
+    case 'number': {
+      if (value === undefined) return schema.default;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ path: label, code: 'invalid_type', message: `${label} must be a number` });
+        return undefined;
+      }
+      let n = schema.integer ? Math.round(value) : value;
+      if (n < schema.min || n > schema.max) {
+        if (!schema.clamp) {
+          errors.push({ path: label, code: 'out_of_range', message: `${label} must be between ${schema.min} and ${schema.max}` });
+          return undefined;
+        }
+        n = Math.max(schema.min, Math.min(schema.max, n));
+      }
+      if (n !== value) clamped.push({ path: label, from: value, to: n });
+      return n;
+    }
+    case 'boolean':
+      if (value === undefined) return schema.default;
+      if (typeof value !== 'boolean') errors.push({ path: label, code: 'invalid_type', message: `${label} must be a boolean` });
+      return value;
+    case 'string':
+      if (value === undefined) return undefined;
+      if (typeof value !== 'string') {
+        errors.push({ path: label, code: 'invalid_type', message: `${label} must be a string` });
+      } else if (schema.pattern && !schema.pattern.test(value)) {
+        errors.push({ path: label, code: 'invalid_value', message: `${label} has an invalid format` });
+      }
+      return value;
+    case 'enum':
+      if (value === undefined) return schema.default;
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        errors.push({ path: label, code: 'invalid_value', message: `${label} must be one of: ${schema.values.join(', ')}` });
+      }
+      return value;
+    case 'array': {
+      if (value === undefined) return undefined;
+      if (!Array.isArray(value)) {
+        errors.push({ path: label, code: 'invalid_type', message: `${label} must be an array` });
+        return undefined;
+      }
+      if ((schema.minItems !== undefined && value.length < schema.minItems) || (schema.maxItems !== undefined && value.length > schema.maxItems)) {
+        errors.push({ path: label, code: 'out_of_range', message: `${label} must have between ${schema.minItems ?? 0} and ${schema.maxItems ?? 'any number of'} items` });
+        return undefined;
+      }
+      return value.map((item, i) => validateField(item, schema.items, `${label}[${i}]`, errors, clamped));
+    }
+    case 'object': {
+      if (value === null && schema.nullable) return null;
+      if (value === undefined) return schema.nullable ? null : validateField({}, schema, path, errors, clamped);
+      if (!isPlainObject(value)) {
+        errors.push({ path: label, code: 'invalid_type', message: `${label} must be an object` });
+        return undefined;
+      }
+      const out: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) {
+        if (!(key in schema.properties)) {
+          const childPath = path ? `${path}.${key}` : key;
+          errors.push({ path: childPath, code: 'unknown_field', message: `${childPath} is not a recognised option` });
+        }
+      }
+      for (const [key, child] of Object.entries(schema.properties)) {
+        const resolved = validateField(value[key], child, path ? `${path}.${key}` : key, errors, clamped);
+        if (resolved !== undefined) out[key] = resolved;
+      }
+      if (schema.check) errors.push(...schema.check(value, label));
+      return out;
+    }
+  }
+}
+
+/**
+ * Validate raw options and resolve them into the pipeline's EmbroideryOptions
+ */
+export function resolveOptions(raw: unknown): { options: EmbroideryOptions; clamped: ClampNotice[] } | { error: OptionsError } {
+  const { value, errors, clamped } = validateOptions(raw);
+  if (errors.length) return { error: optionsError(errors) };
+
+  // Rim width follows the thread unless set explicitly; with a physical size the thread width is only known per image
+  const physical = value.size?.widthMm !== undefined || value.size?.heightMm !== undefined || value.size?.dpi !== undefined;
+  const options = {
+    ...value,
+    border: physical ? { ...value.border } : { ...value.border, width: value.border?.width ?? value.threadThickness }
+  } as EmbroideryOptions;
+  return { options, clamped };
+}
+
+export function optionsError(errors: FieldError[]): OptionsError {
+  return {
+    error: 'Invalid options',
+    message: errors.map(e => e.message).join('; '),
+    errors
+  };
+}
+
+/**
+ * Parse the JSON `options` form field, reporting malformed JSON as a field error instead of throwing
+ */
+export function parseOptionsJson(text: string | undefined): { raw: unknown } | { error: OptionsError } {
+  try {
+    return { raw: JSON.parse(text || '{}') };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { error: optionsError([{ path: 'options', code: 'invalid_json', message: `options is not valid JSON: ${reason}` }]) };
+  }
+}
+
+/**
+ * Header value listing clamped fields, e.g. `maxColors=20->12, threadThickness=0->1`
+ */
+export function formatClamped(clamped: ClampNotice[]): string {
+  return clamped.map(c => `${c.path}=${c.from}->${c.to}`).join(', ');
+}
+
+/**
+ * JSON Schema (OpenAPI 3.0 dialect) for a schema node
+ */
+export function toJsonSchema(schema: FieldSchema): Record<string, unknown> {
+  switch (schema.type) {
+    case 'number':
+      return {
+        type: schema.integer ? 'integer' : 'number', description: schema.description, minimum: schema.min, maximum: schema.max,
+        ...(schema.default !== undefined ? { default: schema.default } : {}),
+        ...(schema.clamp ? { 'x-clamped': true } : {})
+      };
+    case 'boolean':
+      return { type: 'boolean', description: schema.description, ...(schema.default !== undefined ? { default: schema.default } : {}) };
+    case 'string':
+      return { type: 'string', description: schema.description, ...(schema.pattern ? { pattern: schema.pattern.source } : {}) };
+    case 'enum':
+      return { type: 'string', description: schema.description, enum: [...schema.values], ...(schema.default !== undefined ? { default: schema.default } : {}) };
+    case 'array':
+      return {
+        type: 'array', description: schema.description, items: toJsonSchema(schema.items),
+        ...(schema.minItems !== undefined ? { minItems: schema.minItems } : {}),
+        ...(schema.maxItems !== undefined ? { maxItems: schema.maxItems } : {})
+      };
+    case 'object':
+      return {
+        type: 'object', description: schema.description, additionalProperties: false,
+        ...(schema.nullable ? { nullable: true } : {}),
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]))
+      };
+  }
+}
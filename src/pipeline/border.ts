@@ -0,0 +1,79 @@
+import sharp from 'sharp';
+import {
+  labelPalette, traceRim, borderStitches, borderColor, resolveBorderStyle,
+  RUN_STITCH_MM, SATIN_SPACING_MM, MERROW_SPACING_MM,
+  type BorderStyle, type Point
+} from './stitches.ts';
+
+export interface BorderOptions {
+  style: BorderStyle;
+  width: number;
+  color?: { r: number; g: number; b: number };
+  pixelsPerMm: number;
+  threadThickness: number;
+}
+
+// Needle holes: each running stitch stops this fraction short of its end points
+const RUN_GAP = 0.12;
+// Bean stitch lays three threads on top of each other
+const BEAN_WEIGHT = 1.7;
+
+/**
+ * RGBA layer with the rim stitched in the outline color, stitch by stitch along the traced outline: running and bean
+ * stitches follow the contour tangent, satin and merrow columns cross it perpendicular to the outline. Uses the same
+ * needle path as the stitch file.
+ */
+export async function renderBorder(
+  quantized: { data: Buffer; info: sharp.Raw; palette: Array<{ r: number; g: number; b: number; a: number }> },
+  rimBand: Uint8Array,
+  options: BorderOptions
+): Promise<Buffer | null> {
+  const { data, info, palette } = quantized;
+  const { width, height } = info;
+  if (!palette.length) return null;
+  const ppm = options.pixelsPerMm;
+  const style = resolveBorderStyle(options.style, options.width, ppm);
+
+  const labels = labelPalette(data, width, height, info.channels, palette);
+  const contours = traceRim(labels, rimBand, width, height, Math.max(4, Math.round(ppm * 2)));
+  if (!contours.length) return null;
+
+  // Visible stitches: satin zigzags across the top, while overlock wraps return under the fabric edge
+  const top: Array<[Point, Point]> = [];
+  for (const contour of contours) {
+    const { points } = borderStitches(contour, style, options.width, ppm);
+    for (let i = 1; i < points.length; i += style === 'merrow' ? 2 : 1) top.push([points[i - 1]!, points[i]!]);
+  }
+
+  let stroke: number;
+  if (style === 'satin') stroke = SATIN_SPACING_MM * ppm * 0.9;
+  else if (style === 'merrow') stroke = MERROW_SPACING_MM * ppm * 0.9;
+  else stroke = Math.max(1.2, options.threadThickness * 0.6) * (style === 'bean' ? BEAN_WEIGHT : 1);
+  stroke = Math.max(1, stroke);
+
+  const d: string[] = [];
+  for (const [a, b] of top) {
+    let ax = a.x, ay = a.y, bx = b.x, by = b.y;
+    if (style === 'running' || style === 'bean') {
+      const gap = Math.min(RUN_GAP * RUN_STITCH_MM * ppm, Math.hypot(bx - ax, by - ay) * RUN_GAP);
+      const len = Math.hypot(bx - ax, by - ay) || 1;
+      const ux = (bx - ax) / len * gap, uy = (by - ay) / len * gap;
+      ax += ux; ay += uy; bx -= ux; by -= uy;
+    }
+    d.push(`M${(ax + 0.5).toFixed(1)} ${(ay + 0.5).toFixed(1)}L${(bx + 0.5).toFixed(1)} ${(by + 0.5).toFixed(1)}`);
+  }
+  const path = d.join('');
+
+  const c = options.color ?? borderColor(palette);
+  const rgb = (r: number, g: number, b: number) => `rgb(${Math.round(r)},${Math.round(g)},${Math.round(b)})`;
+  const base = rgb(c.r, c.g, c.b);
+  const highlight = rgb(c.r + (255 - c.r) * 0.45, c.g + (255 - c.g) * 0.45, c.b + (255 - c.b) * 0.45);
+  const shadow = rgb(c.r * 0.35, c.g * 0.35, c.b * 0.35);
+  // Shadow under each thread, the thread, then a thin highlight along its crown
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+    + `<path d="${path}" fill="none" stroke="${shadow}" stroke-opacity="0.45" stroke-width="${(stroke * 1.25).toFixed(2)}" stroke-linecap="round" transform="translate(0.6 0.8)"/>`
+    + `<path d="${path}" fill="none" stroke="${base}" stroke-width="${stroke.toFixed(2)}" stroke-linecap="round"/>`
+    + `<path d="${path}" fill="none" stroke="${highlight}" stroke-opacity="0.5" stroke-width="${(stroke * 0.35).toFixed(2)}" stroke-linecap="round" transform="translate(-0.3 -0.3)"/>`
+    + `</svg>`;
+  return sharp(Buffer.from(svg)).ensureAlpha().raw().toBuffer();
+}
@@ -0,0 +1,93 @@
+// sRGB ⇄ CIELAB (D65) helpers for perceptual color matching
+
+const SRGB_TO_LINEAR = new Float64Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+const REF_X = 0.95047, REF_Y = 1.0, REF_Z = 1.08883;
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+export function rgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const lr = SRGB_TO_LINEAR[Math.max(0, Math.min(255, Math.round(r)))]!;
+  const lg = SRGB_TO_LINEAR[Math.max(0, Math.min(255, Math.round(g)))]!;
+  const lb = SRGB_TO_LINEAR[Math.max(0, Math.min(255, Math.round(b)))]!;
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / REF_X;
+  const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750) / REF_Y;
+  const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / REF_Z;
+  const fx = labF(x), fy = labF(y), fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Squared CIE76 distance; cheap enough for per-pixel matching
+ */
+export function deltaE76Sq(a: readonly number[], b: readonly number[]): number {
+  const dl = (a[0] ?? 0) - (b[0] ?? 0), da = (a[1] ?? 0) - (b[1] ?? 0), db = (a[2] ?? 0) - (b[2] ?? 0);
+  return dl * dl + da * da + db * db;
+}
+
+/**
+ * CIEDE2000 color difference (Sharma et al. 2005 reference formulation)
+ */
+export function deltaE2000(lab1: readonly number[], lab2: readonly number[]): number {
+  const [L1 = 0, a1 = 0, b1 = 0] = lab1;
+  const [L2 = 0, a2 = 0, b2 = 0] = lab2;
+  const rad = Math.PI / 180;
+
+  const C1 = Math.hypot(a1, b1), C2 = Math.hypot(a2, b2);
+  const Cbar7 = Math.pow((C1 + C2) / 2, 7);
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + Math.pow(25, 7))));
+  const a1p = (1 + G) * a1, a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1), C2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(b1, a1p), h2p = hue(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const Lbarp = (L1 + L2) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) > 180) hbarp += h1p + h2p < 360 ? 360 : -360;
+    hbarp /= 2;
+  }
+
+  const T = 1 - 0.17 * Math.cos((hbarp - 30) * rad) + 0.24 * Math.cos(2 * hbarp * rad)
+    + 0.32 * Math.cos((3 * hbarp + 6) * rad) - 0.2 * Math.cos((4 * hbarp - 63) * rad);
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Cbarp7 = Math.pow(Cbarp, 7);
+  const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + Math.pow(25, 7)));
+  const Sl = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+
+  const l = dLp / Sl, c = dCp / Sc, h = dHp / Sh;
+  return Math.sqrt(l * l + c * c + h * h + Rt * c * h);
+}
+
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+}
+
+export function rgbToHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(v => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, '0')).join('');
+}
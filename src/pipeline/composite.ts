@@ -1,57 +1,70 @@
+import { createHash } from 'node:crypto';
 import sharp from 'sharp';
 import { createOrientationMask } from './orientation.ts';
 import { tileSheetCache, keyTile, maskCache, keyMask } from './cache.ts';
+import type { DebugLayer } from './debug.ts';
+import { renderBorder } from './border.ts';
+import { DEFAULT_PIXELS_PER_MM, labelPalette, type BorderStyle } from './stitches.ts';
+import { planFills, renderFillLayer, threadTextureMask, type FillSettings } from './fills.ts';
+import { renderSheenLayer, DEFAULT_LIGHT_DIRECTION, type ThreadMaterial } from './lighting.ts';
 
-interface CompositingResult { buffer: Buffer; info: { width: number; height: number } }
+// `layers` holds every sheet and mask that went into the composite when options.collectLayers is set
+export interface CompositingResult { buffer: Buffer; info: { width: number; height: number }; layers?: DebugLayer[] }
 
 export async function compositeImage(
   quantized: { data: Buffer; info: sharp.Raw; palette: any[] },
-  textures: { threadTextures: Buffer[]; hatchPatterns: Buffer[] },
+  textures: { threadTextures: Buffer[]; textureKey: string },
   edges: { edges: Buffer; edgeMap: Uint8Array; rimBand: Uint8Array },
-  orientation: { orientationBins: Uint8Array },
-  options: { threadThickness: number; preserveTransparency: boolean; sheen?: number; densityScale?: number; borderStitch?: boolean }
+  orientation: { orientationBins: Uint8Array; numBins?: number; lic?: { texture: Uint8Array; width: number; height: number } },
+  options: { threadThickness: number; preserveTransparency: boolean; sheen?: number; lightDirection?: number; material?: ThreadMaterial; densityScale?: number; pixelsPerMm?: number; hatch?: 'none' | 'diagonal' | 'cross'; fill?: FillSettings; borderStitch?: boolean; border?: { style?: BorderStyle; width?: number; color?: { r: number; g: number; b: number } }; collectLayers?: boolean }
 ): Promise<CompositingResult> {
   const { data, info } = quantized;
-  const { threadTextures, hatchPatterns } = textures;
+  const { threadTextures } = textures;
   const { edges: edgeBuffer, rimBand } = edges;
   const { orientationBins } = orientation;
 
   // **CRITICAL: Build all composite layers in parallel, then batch into single Sharp operation**
   const compositeOps: any[] = [];
+  const layers: DebugLayer[] | undefined = options.collectLayers ? [] : undefined;
+  const sheet = { width: info.width, height: info.height, channels: 4 as const };
+  const mask = { width: info.width, height: info.height, channels: 1 as const };
   
   // Pre-compute alpha mask once for reuse
   const alphaMaskRaw = await sharp(quantized.data, { raw: { width: info.width, height: info.height, channels: info.channels } })
     .ensureAlpha().extractChannel(3).raw().toBuffer();
 
-  // Hatch pattern overlay
-  if (hatchPatterns.length > 0 && hatchPatterns[0]) {
-    const tileKey = keyTile('hatch', 0, info.width, info.height);
-    let hatchSheet = tileSheetCache.get(tileKey);
-    if (!hatchSheet) {
-      // Cache as RAW buffer instead of PNG to eliminate decode overhead
-      hatchSheet = await sharp({ create: { width: info.width, height: info.height, channels: 4, background: { r:0,g:0,b:0,alpha:0 } } })
-        .composite([{ input: hatchPatterns[0], tile: true, left: 0, top: 0 }])
-        .raw()
-        .toBuffer();
-      tileSheetCache.set(tileKey, hatchSheet);
-    }
-    
-    compositeOps.push({
-      input: hatchSheet,
-      raw: { width: info.width, height: info.height, channels: 4 },
-      blend: 'multiply',
-      mask: { input: alphaMaskRaw, raw: { width: info.width, height: info.height, channels: 1 } }
-    });
+  // Per-region fills: each color region gets its own stitch structure instead of one shared hatch sheet
+  const ppm = options.pixelsPerMm ?? DEFAULT_PIXELS_PER_MM;
+  const labels = labelPalette(data, info.width, info.height, info.channels, quantized.palette);
+  const fills = planFills(labels, info.width, info.height, orientation, ppm, options.fill ?? {}, options.hatch);
+  const fillLayer = renderFillLayer(fills, alphaMaskRaw, info.width, info.height, {
+    pixelsPerMm: ppm,
+    ...(options.densityScale !== undefined ? { densityScale: options.densityScale } : {}),
+    ...(options.fill?.tatami?.offset !== undefined ? { tatamiOffset: options.fill.tatami.offset } : {}),
+    ...(options.fill?.cross?.cellMm !== undefined ? { crossCellMm: options.fill.cross.cellMm } : {})
+  });
+  layers?.push({ name: 'fill', data: fillLayer, raw: sheet });
+  compositeOps.push({ input: fillLayer, raw: sheet, blend: 'overlay' });
+  // Cross-stitch and applique fabric keep their own structure, without thread streaks on top
+  const threadMask = threadTextureMask(fills, ppm);
+
+  // LIC mode: one flow-aligned streak layer from the continuous orientation field replaces the sampled bin layers
+  if (orientation.lic) {
+    const lic = await createLicLayer(orientation.lic, threadMask ? maskAnd(alphaMaskRaw, threadMask) : alphaMaskRaw, info.width, info.height);
+    compositeOps.push(lic);
+    layers?.push({ name: 'lic-sheet', data: lic.input, raw: sheet });
   }
 
   // **OPTIMIZATION: Reduce thread layers from 6 to 3 for major speedup**
-  const maxBins = Math.min(3, threadTextures.length); // Reduced from 6 to 3
+  const maxBins = orientation.lic ? 0 : Math.min(3, threadTextures.length); // Reduced from 6 to 3
+  // Sheets and masks are shared between requests, so their keys name the textures and orientation they come from
+  const binsHash = maxBins ? createHash('sha1').update(orientationBins).digest('hex') : '';
   
   for (let binIndex = 0; binIndex < maxBins; binIndex++) {
     // Skip every other bin to reduce layer count while maintaining variety
     const actualBin = binIndex * 2 % threadTextures.length;
     
-    const tileKey = keyTile('thread', actualBin, info.width, info.height);
+    const tileKey = keyTile(`thread:${textures.textureKey}`, actualBin, info.width, info.height);
     let threadSheet = tileSheetCache.get(tileKey);
     if (!threadSheet) {
       // Cache as RAW buffer instead of PNG 
@@ -62,34 +75,55 @@ export async function compositeImage(
       tileSheetCache.set(tileKey, threadSheet);
     }
     
-    const maskKey = keyMask(actualBin, info.width, info.height, 'bins');
+    const maskKey = keyMask(actualBin, info.width, info.height, binsHash);
     let maskBuf = maskCache.get(maskKey);
     if (!maskBuf) {
       const maskArr = createOrientationMask(orientationBins, actualBin, info.width, info.height);
       maskBuf = Buffer.from(maskArr);
       maskCache.set(maskKey, maskBuf);
     }
+    // Cached masks are shared between requests, so restrict a copy
+    const binMask = threadMask ? maskAnd(maskBuf, threadMask) : maskBuf;
+    layers?.push({ name: `thread-sheet-${actualBin}`, data: threadSheet, raw: sheet }, { name: `thread-mask-${actualBin}`, data: binMask, raw: mask });
     
     compositeOps.push({
       input: threadSheet,
       raw: { width: info.width, height: info.height, channels: 4 },
       blend: 'overlay', 
-      mask: { input: maskBuf, raw: { width: info.width, height: info.height, channels: 1 } }
+      mask: { input: binMask, raw: { width: info.width, height: info.height, channels: 1 } }
     });
   }
 
+  // Directional sheen: highlight and thread bump from each pixel's orientation bin, on top of the thread textures
+  const sheen = options.sheen ?? 0.25;
+  if (sheen > 0) {
+    const sheenLayer = renderSheenLayer(orientationBins, orientation.numBins ?? 6, alphaMaskRaw, info.width, info.height, {
+      sheen,
+      direction: options.lightDirection ?? DEFAULT_LIGHT_DIRECTION,
+      material: options.material ?? 'rayon',
+      threadThickness: options.threadThickness,
+      ...(options.densityScale !== undefined ? { densityScale: options.densityScale } : {})
+    });
+    layers?.push({ name: 'sheen', data: sheenLayer, raw: sheet });
+    compositeOps.push({ input: sheenLayer, raw: sheet, blend: 'overlay' });
+  }
+
   // Edge overlay
   compositeOps.push({ input: edgeBuffer, blend: 'overlay' });
 
-  // **OPTIMIZATION: Simplified rim band - skip for speed unless logo mode**
-  if (options.borderStitch !== false && options.threadThickness > 2) {
-    const stitches = createSimpleStitchPattern(rimBand, options.threadThickness, info.width, info.height);
-    const stitchMaskRaw = Buffer.from(stitches);
-    compositeOps.push({
-      input: { create: { width: info.width, height: info.height, channels: 4, background: { r: 255, g: 255, b: 255, alpha: 1 } } },
-      left: 0, top: 0, blend: 'overlay',
-      mask: { input: stitchMaskRaw, raw: { width: info.width, height: info.height, channels: 1 } }
+  // Stitched rim in the outline color, drawn over everything else
+  if (options.borderStitch !== false) {
+    const border = await renderBorder(quantized, rimBand, {
+      style: options.border?.style ?? 'auto',
+      width: Math.max(1, options.border?.width ?? options.threadThickness),
+      ...(options.border?.color ? { color: options.border.color } : {}),
+      pixelsPerMm: ppm,
+      threadThickness: options.threadThickness
     });
+    if (border) {
+      layers?.push({ name: 'border', data: border, raw: sheet });
+      compositeOps.push({ input: border, raw: sheet });
+    }
   }
 
   // **SINGLE Sharp pipeline with batched composites - eliminates ALL intermediate PNG encoding**
@@ -98,36 +132,32 @@ export async function compositeImage(
     .png()
     .toBuffer();
 
-  return { buffer: composite, info: { width: info.width, height: info.height } };
+  return { buffer: composite, info: { width: info.width, height: info.height }, ...(layers ? { layers } : {}) };
 }
 
 /**
- * **Simplified stitch pattern with reduced computation**
+ * Upscale the LIC texture to full size as an RGBA overlay whose alpha follows the design's alpha
  */
-function createSimpleStitchPattern(rimBand: Uint8Array, stitchLength: number, width: number, height: number): Uint8Array {
-  const out = new Uint8Array(rimBand.length);
-  const dash = Math.max(4, Math.round(stitchLength * 2)); // Larger dashes for speed
-  
-  // **Optimized: Process in chunks to reduce per-pixel computation**
-  for (let i = 0; i < rimBand.length; i++) {
-    if (!rimBand[i]) continue;
-    const x = i % width;
-    const y = Math.floor(i / width);
-    // Simplified pattern - just horizontal dashes for speed
-    const on = (Math.floor(x / dash) % 2) === 0;
-    out[i] = on ? 255 : 0;
+async function createLicLayer(
+  lic: { texture: Uint8Array; width: number; height: number },
+  alpha: Buffer,
+  width: number,
+  height: number
+) {
+  const streaks = await sharp(Buffer.from(lic.texture), { raw: { width: lic.width, height: lic.height, channels: 1 } })
+    .resize(width, height, { fit: 'fill', kernel: 'cubic' })
+    .raw()
+    .toBuffer();
+  const layer = Buffer.alloc(width * height * 4);
+  for (let i = 0, p = 0; i < streaks.length; i++, p += 4) {
+    const v = streaks[i] ?? 128;
+    layer[p] = v; layer[p + 1] = v; layer[p + 2] = v; layer[p + 3] = alpha[i] ?? 0;
   }
-  return out;
+  return { input: layer, raw: { width, height, channels: 4 }, blend: 'overlay' };
 }
 
-// Keep original for complex cases
-function createEnhancedStitchPattern(rimBand: Uint8Array, stitchLength: number, width: number, height: number): Uint8Array {
-  const out = new Uint8Array(rimBand.length);
-  const dash = Math.max(2, Math.round(stitchLength * 1.5));
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const i = y * width + x; if (!rimBand[i]) continue; const on = ((Math.floor(x / dash) + Math.floor(y / dash)) % 2) === 0; out[i] = on ? 255 : 0;
-    }
-  }
+function maskAnd(mask: Buffer, keep: Uint8Array): Buffer {
+  const out = Buffer.alloc(mask.length);
+  for (let i = 0; i < out.length; i++) out[i] = keep[i] ? mask[i]! : 0;
   return out;
-}
\ No newline at end of file
+}
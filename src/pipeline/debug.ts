@@ -0,0 +1,57 @@
+import sharp from 'sharp';
+import { writeZip, type ZipEntry } from '../formats/zip.ts';
+
+// One intermediate image: already-encoded PNG, or raw pixels encoded when the archive is written
+export interface DebugLayer {
+  name: string;
+  data: Buffer;
+  raw?: { width: number; height: number; channels: 1 | 3 | 4 };
+}
+
+/**
+ * Single-channel mask as a layer; any nonzero value shows white so sparse 0/1 masks are visible
+ */
+export function maskLayer(name: string, mask: Uint8Array, width: number, height: number): DebugLayer {
+  const data = Buffer.alloc(mask.length);
+  for (let i = 0; i < mask.length; i++) data[i] = mask[i] ? 255 : 0;
+  return { name, data, raw: { width, height, channels: 1 } };
+}
+
+/**
+ * Orientation bins as hues around the color wheel (bin 0 red), so neighbouring angles get neighbouring colors
+ */
+export function orientationLayer(name: string, bins: Uint8Array, numBins: number, width: number, height: number): DebugLayer {
+  const colors: Array<[number, number, number]> = [];
+  for (let b = 0; b < numBins; b++) colors.push(hueToRgb(b / numBins));
+  const data = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < bins.length; i++) {
+    const c = colors[bins[i]! % numBins]!;
+    data[i * 3] = c[0];
+    data[i * 3 + 1] = c[1];
+    data[i * 3 + 2] = c[2];
+  }
+  return { name, data, raw: { width, height, channels: 3 } };
+}
+
+/**
+ * ZIP with one PNG per layer, numbered in pipeline order, followed by the attachments as given
+ */
+export async function writeDebugArchive(layers: DebugLayer[], attachments: ZipEntry[]): Promise<Buffer> {
+  const entries: ZipEntry[] = [];
+  const digits = String(layers.length).length;
+  for (const [i, layer] of layers.entries()) {
+    const png = layer.raw
+      ? await sharp(layer.data, { raw: layer.raw }).png().toBuffer()
+      : layer.data;
+    entries.push({ name: `${String(i + 1).padStart(digits, '0')}-${layer.name}.png`, data: png });
+  }
+  return writeZip([...entries, ...attachments]);
+}
+
+function hueToRgb(h: number): [number, number, number] {
+  const f = (n: number) => {
+    const k = (n + h * 6) % 6;
+    return Math.round(255 * (1 - Math.max(0, Math.min(1, k, 4 - k))));
+  };
+  return [f(5), f(3), f(1)];
+}
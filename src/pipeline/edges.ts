@@ -1,5 +1,5 @@
 import sharp from 'sharp';
-import { encodeMaskPNG } from './utils.ts';
+import { encodeMaskPNG, gaussianBlurFloat, sobel } from './utils.ts';
 
 interface EdgeResult {
   edges: Buffer;
@@ -7,42 +7,39 @@ interface EdgeResult {
   rimBand: Uint8Array;
 }
 
+export interface XdogParams { sigma: number; k: number; tau: number; phi: number }
+
+export const DEFAULT_XDOG: XdogParams = { sigma: 0.8, k: 1.6, tau: 0.98, phi: 10 };
+
 export async function detectEdges(
   quantized: { data: Buffer; info: sharp.Raw },
-  options: { threadThickness: number; edgeMode?: 'photo' | 'logo' }
+  options: { threadThickness: number; rimWidth?: number; edgeMode?: 'photo' | 'logo'; detector?: 'canny' | 'xdog'; xdog?: Partial<XdogParams> }
 ): Promise<EdgeResult> {
   const { data, info } = quantized;
   const targetMax = 600;
   const scale = Math.max(1, Math.ceil(Math.max(info.width, info.height) / targetMax));
-
-  const base = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
-    .toColourspace('b-w')
-    .resize({ width: Math.floor(info.width / scale), height: Math.floor(info.height / scale), fit: 'inside' })
-    .blur(1);
-
-  const sobelX = { width: 3, height: 3, kernel: [-1,0,1,-2,0,2,-1,0,1] } as any;
-  const sobelY = { width: 3, height: 3, kernel: [-1,-2,-1,0,0,0,1,2,1] } as any;
-
-  const gxBuf = await base.clone().convolve(sobelX).raw().toBuffer();
-  const gyBuf = await base.clone().convolve(sobelY).raw().toBuffer();
   const dsWidth = Math.floor(info.width / scale);
   const dsHeight = Math.floor(info.height / scale);
 
-  const gx = new Uint8Array(gxBuf.buffer, gxBuf.byteOffset, gxBuf.length);
-  const gy = new Uint8Array(gyBuf.buffer, gyBuf.byteOffset, gyBuf.length);
-  let mean = 0; for (let i = 0; i < gx.length; i++) mean += Math.hypot(gx[i] || 0, gy[i] || 0);
-  mean /= gx.length;
-  const isLogo = options.edgeMode === 'logo';
-  const thresh = isLogo ? Math.max(8, mean * 0.6) : Math.max(20, mean * 1.2);
+  // Flatten onto white so alpha boundaries register as luminance edges
+  const grayBuf = await sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .greyscale()
+    .resize({ width: dsWidth, height: dsHeight, fit: 'fill' })
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+  const gray = new Float32Array(dsWidth * dsHeight);
+  for (let i = 0; i < gray.length; i++) gray[i] = Number(grayBuf[i] ?? 0);
 
-  const edgesSmall = new Uint8Array(gx.length);
-  for (let i = 0; i < gx.length; i++) {
-    const m = Math.hypot(gx[i] || 0, gy[i] || 0);
-    edgesSmall[i] = m >= thresh ? 255 : 0;
-  }
+  const isLogo = options.edgeMode === 'logo';
+  const edgesSmall = options.detector === 'xdog'
+    ? xdogEdges(gray, dsWidth, dsHeight, { ...DEFAULT_XDOG, ...options.xdog })
+    : cannyEdges(gray, dsWidth, dsHeight, isLogo);
 
   const edgeFullRaw = await sharp(Buffer.from(edgesSmall), { raw: { width: dsWidth, height: dsHeight, channels: 1 } })
     .resize({ width: info.width, height: info.height, fit: 'fill', kernel: sharp.kernel.nearest })
+    .extractChannel(0)
     .raw().toBuffer();
   const edgeMap = new Uint8Array(edgeFullRaw);
 
@@ -62,17 +59,20 @@ export async function detectEdges(
   const alphaBin = new Uint8Array(alphaRaw.length);
   for (let i = 0; i < alphaBin.length; i++) alphaBin[i] = alphaRaw[i] ? 255 : 0;
 
-  const size = Math.max(3, options.threadThickness * 2 + 1);
+  // The band keeps box-filter coverage between 10% and 90%, i.e. the middle 80% of the kernel, centred on the outline
+  const size = Math.max(3, 2 * Math.round((options.rimWidth ?? options.threadThickness) / 0.8 / 2) + 1);
   const k = new Array(size * size).fill(1);
   const kernel = { width: size, height: size, kernel: k } as any;
 
   const blurred = await sharp(Buffer.from(alphaBin), { raw: { width: info.width, height: info.height, channels: 1 } })
     .convolve(kernel)
+    .extractChannel(0)
     .raw().toBuffer();
 
   const rimBand = new Uint8Array(blurred.length);
-  const thresholdDil = size * size * 0.1;
-  const thresholdEro = size * size * 0.9;
+  // convolve normalizes by the kernel sum, so the blur is the 0-255 coverage of the design around each pixel
+  const thresholdDil = 255 * 0.1;
+  const thresholdEro = 255 * 0.9;
   for (let i = 0; i < rimBand.length; i++) {
     const v = blurred[i] || 0;
     rimBand[i] = (v > thresholdDil && v < thresholdEro) ? 255 : 0;
@@ -81,3 +81,75 @@ export async function detectEdges(
   const edgePng = await encodeMaskPNG(stitched, info.width, info.height);
   return { edges: edgePng, edgeMap, rimBand };
 }
+
+/**
+ * Canny: Gaussian smoothing, Sobel gradients, non-maximum suppression, then hysteresis between two thresholds
+ */
+function cannyEdges(gray: Float32Array, width: number, height: number, isLogo: boolean): Uint8Array {
+  const blurred = gaussianBlurFloat(gray, width, height, 1);
+  const { gx, gy } = sobel(blurred, width, height);
+  const mag = new Float32Array(width * height);
+  let mean = 0;
+  for (let i = 0; i < mag.length; i++) { const m = Math.hypot(gx[i] || 0, gy[i] || 0); mag[i] = m; mean += m; }
+  mean /= mag.length || 1;
+
+  // Adaptive thresholds: logos have flat fills so even faint gradients are real boundaries
+  const high = isLogo ? Math.max(8, mean * 0.6) : Math.max(20, mean * 1.2);
+  const low = high * 0.4;
+
+  // Non-maximum suppression along the gradient direction (quantized to 4 sectors)
+  const thin = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const m = mag[i] || 0;
+      if (m < low) continue;
+      let a = Math.atan2(gy[i] || 0, gx[i] || 0) * 180 / Math.PI;
+      if (a < 0) a += 180;
+      let n1: number, n2: number;
+      if (a < 22.5 || a >= 157.5) { n1 = i - 1; n2 = i + 1; }
+      else if (a < 67.5) { n1 = i - width - 1; n2 = i + width + 1; }
+      else if (a < 112.5) { n1 = i - width; n2 = i + width; }
+      else { n1 = i - width + 1; n2 = i + width - 1; }
+      if (m >= (mag[n1] || 0) && m >= (mag[n2] || 0)) thin[i] = m;
+    }
+  }
+
+  // Hysteresis: keep weak edges only when connected to a strong one
+  const out = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let i = 0; i < thin.length; i++) {
+    if ((thin[i] || 0) >= high && !out[i]) { out[i] = 255; stack.push(i); }
+    while (stack.length) {
+      const p = stack.pop()!;
+      const px = p % width, py = (p - px) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const x = px + dx, y = py + dy;
+          if (x < 0 || y < 0 || x >= width || y >= height) continue;
+          const q = y * width + x;
+          if (!out[q] && (thin[q] || 0) >= low) { out[q] = 255; stack.push(q); }
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * eXtended Difference-of-Gaussians: D = G(sigma) - tau * G(k * sigma) on [0,1] luminance,
+ * soft-thresholded with 1 + tanh(phi * D) where D < 0, giving ink-like contours instead of gradient speckle
+ */
+function xdogEdges(gray: Float32Array, width: number, height: number, params: XdogParams): Uint8Array {
+  const norm = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) norm[i] = (gray[i] || 0) / 255;
+  const g1 = gaussianBlurFloat(norm, width, height, params.sigma);
+  const g2 = gaussianBlurFloat(norm, width, height, params.sigma * params.k);
+  const out = new Uint8Array(width * height);
+  for (let i = 0; i < out.length; i++) {
+    const d = (g1[i] || 0) - params.tau * (g2[i] || 0);
+    const t = d >= 0 ? 1 : 1 + Math.tanh(params.phi * d);
+    out[i] = t < 0.5 ? 255 : 0;
+  }
+  return out;
+}
@@ -1,122 +1,495 @@
 import sharp from 'sharp';
-import { quantizeColors } from './quantize.ts';
+import { createHash } from 'node:crypto';
+import { quantizeColors, type QuantizeOptions, type QuantizationResult } from './quantize.ts';
 import { detectEdges } from './edges.ts';
 import { computeOrientation } from './orientation.ts';
-import { compositeImage } from './composite.ts';
+import { compositeImage, type CompositingResult } from './composite.ts';
 import { generateTextures } from './textures.ts';
-import { extractAlpha } from './utils.ts';
-import { computeWarnings } from './warnings.ts';
+import { extractAlpha, seedFromBuffer } from './utils.ts';
+import { stageKey, stageTimings, type StageCache, type StageListener } from './stages.ts';
+import { computeWarnings, type DesignWarning } from './warnings.ts';
+import { markMergedColors, renderProblemOverlay, type OverlayLegendEntry } from './overlay.ts';
+import { maskLayer, orientationLayer, writeDebugArchive, type DebugLayer } from './debug.ts';
+import type { ThreadMaterial } from './lighting.ts';
+import type { FillSettings } from './fills.ts';
+import { planStitches, type BorderStyle, type StitchPlanOptions } from './stitches.ts';
+import { planDesignSize, threadPixels, type DesignSize, type PhysicalSize } from './sizing.ts';
+import { estimateStitches, type StitchEstimate } from './estimate.ts';
+import { applyPaletteReplacements, type PaletteReplacement } from './palette.ts';
+import { hexToRgb } from './color.ts';
+import { resolveOutputFormat, encodeOutput, supportsAlpha, OUTPUT_MIME, type OutputFormat } from './output.ts';
+import { snapToThreads, matchThreads, type ThreadMatch } from '../threads/match.ts';
+import type { ThreadCatalogId } from '../threads/catalogs.ts';
+import { renderFabricBackground } from '../fabrics/library.ts';
+import { getTemplate } from '../mockups/templates.ts';
+import { renderMockup, type MockupPlacement } from '../mockups/render.ts';
+import { encodeStitchFile, STITCH_FORMATS, type StitchFormat } from '../formats/stitchFile.ts';
 
 // Types
-interface EmbroideryOptions {
+export interface EmbroideryOptions {
   maxColors: number;
   threadThickness: number;
   preserveTransparency: boolean;
+  warnSmallDetails?: boolean;
   hatch: 'none' | 'diagonal' | 'cross';
+  fill?: FillSettings;
   background: { type: 'color' | 'fabric'; hex?: string; name?: string } | null;
-  style: { orientation: 'binned-8' | 'lic'; edges: 'canny' | 'xdog'; mode?: 'photo' | 'logo' };
-  lighting?: { sheen?: number };
-  border?: { stitch?: boolean; width?: number };
+  style: { orientation: 'binned-8' | 'lic'; edges: 'canny' | 'xdog'; mode?: 'photo' | 'logo'; xdog?: { sigma?: number; k?: number; tau?: number; phi?: number } };
+  lighting?: { sheen?: number; direction?: number; material?: ThreadMaterial };
+  border?: { stitch?: boolean; width?: number; style?: BorderStyle; color?: string };
   density?: { scale?: number };
   grain?: { randomness?: number };
+  // Seed for grain and LIC noise; defaults to a hash of the input image
+  seed?: number;
+  quantize?: Omit<QuantizeOptions, 'fixed'>;
+  threads?: { catalog?: ThreadCatalogId; snap?: boolean };
+  palette?: { fixed?: string[]; mode?: 'exact' | 'seed'; replace?: PaletteReplacement[] };
+  machine?: { spm?: number };
+  output?: { format?: OutputFormat | 'auto'; quality?: number };
+  size?: DesignSize;
+  mockup?: { template: string; placement?: MockupPlacement } | null;
+  debug?: { layers?: boolean };
 }
 
-interface ProcessingResult { buffer: Buffer; mime: string; meta?: { paletteSize: number; originalSize: { width: number; height: number }; finalSize: { width: number; height: number }; palette?: Array<{ r:number; g:number; b:number; a:number }>; warnings?: string[]; timings?: Record<string, number> } }
+interface ProcessingResult { buffer: Buffer; mime: string; debugArchive?: Buffer; meta: { paletteSize: number; originalSize: { width: number; height: number }; finalSize: { width: number; height: number }; physicalSize: PhysicalSize; palette: Array<{ r:number; g:number; b:number; a:number }>; seed: number; warnings: DesignWarning[]; timings: Record<string, number>; stitchEstimate: number; estimate: StitchEstimate; threads?: ThreadMatch[] } }
 
-export async function processEmbroidery(input: Buffer, mime: string, options: EmbroideryOptions): Promise<ProcessingResult> {
-  const timings: Record<string, number> = {};
+interface EstimateResult { estimate: StitchEstimate; physicalSize: PhysicalSize; palette: Array<{ r: number; g: number; b: number; a: number }>; threads?: ThreadMatch[]; timings: Record<string, number> }
+
+interface AnalysisResult { buffer: Buffer; mime: string; legend: OverlayLegendEntry[]; warnings: DesignWarning[]; physicalSize: PhysicalSize; palette: Array<{ r: number; g: number; b: number; a: number }>; timings: Record<string, number> }
+
+interface StitchFileResult { buffer: Buffer; mime: string; extension: string; meta: { physicalSize: PhysicalSize; stitchCount: number; colorChanges: number; threads: Array<{ r: number; g: number; b: number }>; extents: { minX: number; minY: number; maxX: number; maxY: number }; timings: Record<string, number> } }
+
+/**
+ * Stage outputs shared by several renders of the same image (batch variants), by stage key
+ */
+export type StageMemo = Map<string, Promise<unknown>>;
+
+export interface RenderContext {
+  onStage?: StageListener;
+  // Only valid for a single input image
+  memo?: StageMemo;
+  // Stage outputs kept across requests
+  cache?: StageCache;
+}
+
+/**
+ * The pipeline as a DAG: each cacheable stage names its explicit inputs (options it reads, plus the keys of the stages
+ * it consumes), and its output is reused, from the request's memo or from the cross-request cache, whenever a stage
+ * with the same key has run before. Changing only the lighting reuses everything up to the textures; changing only the
+ * background reuses the composite too. Stage outputs are never modified downstream, so sharing them is safe.
+ */
+function runStage<T>(context: RenderContext, name: string, inputs: unknown[], run: () => Promise<T>): { key: string; value: Promise<T> } {
+  if (!context.memo && !context.cache) return { key: '', value: run() };
+  const key = stageKey(name, inputs);
+  let value = context.memo?.get(key) as Promise<T> | undefined;
+  if (!value) {
+    value = (async () => {
+      const cached = await context.cache?.get(key);
+      if (cached !== undefined) return cached as T;
+      const output = await run();
+      context.cache?.set(key, output);
+      return output;
+    })();
+    context.memo?.set(key, value);
+  }
+  return { key, value };
+}
+
+/**
+ * Normalize and reduce to the final palette: quantize, snap to threads, apply recolor rules.
+ * The returned options have the thread width scaled to the physical size when `size` is set.
+ */
+async function prepareQuantized(input: Buffer, mime: string, requested: EmbroideryOptions, timings: Record<string, number>, context: RenderContext = {}) {
+  const imageKey = context.memo || context.cache ? createHash('sha256').update(input).digest('hex') : '';
+  const n0 = process.hrtime.bigint();
+  const normalizeStage = runStage(context, 'normalize', [imageKey, mime, requested.size ?? null], () => normalizeImage(input, mime, requested.size));
+  const normalized = await normalizeStage.value;
+  const n1 = process.hrtime.bigint();
+  timings.normalizeMs = Number(n1 - n0) / 1e6;
+  const options = withPhysicalScale(requested, normalized.physical);
+
+  // Vector fast-path removed during cleanup; using raster pipeline for all modes
+
+  const q0 = process.hrtime.bigint();
+  const quantizeStage = runStage(
+    context, 'quantize',
+    [normalizeStage.key, options.maxColors, options.quantize ?? null, options.palette ?? null, options.threads ?? null],
+    () => reducePalette(normalized, options)
+  );
+  const { quantized, threads, warnings: paletteWarnings } = await quantizeStage.value;
+  const q1 = process.hrtime.bigint();
+  timings.quantizeMs = Number(q1 - q0) / 1e6;
+
+  return { normalized, quantized, threads, paletteWarnings, options, quantizeKey: quantizeStage.key };
+}
+
+async function reducePalette(normalized: Awaited<ReturnType<typeof normalizeImage>>, options: EmbroideryOptions) {
+  const fixed = options.palette?.fixed?.length
+    ? { colors: options.palette.fixed.map(hex => ({ ...hexToRgb(hex), a: 255 })), mode: options.palette.mode ?? 'exact' }
+    : undefined;
+  let quantized = await quantizeColors(normalized, options.maxColors, { ...options.quantize, ...(fixed ? { fixed } : {}) });
+
+  // Thread matching happens before edges and textures so everything downstream sees sewable colors
+  let threads: ThreadMatch[] | undefined;
+  if (options.threads?.catalog) {
+    if (options.threads.snap !== false) {
+      ({ quantized, threads } = snapToThreads(quantized, options.threads.catalog));
+    } else {
+      threads = matchThreads(quantized.palette, options.threads.catalog);
+    }
+  }
+  const warnings: DesignWarning[] = [];
+  if (options.palette?.replace?.length) {
+    const replaced = applyPaletteReplacements(quantized, options.palette.replace, threads, options.threads?.catalog);
+    ({ quantized, threads } = replaced);
+    for (const i of replaced.skipped) {
+      warnings.push({ code: 'replace_skipped', severity: 'warning', message: `palette.replace[${i}] was not applied: the palette has only ${quantized.palette.length} colors` });
+    }
+  }
+  return { quantized, threads, warnings };
+}
+
+function hasDesignSize(size: DesignSize | undefined): boolean {
+  return size?.widthMm !== undefined || size?.heightMm !== undefined || size?.dpi !== undefined;
+}
+
+// With a physical size, thread width (and so textures, edge stitching and rim dashes) follows real millimetres
+function withPhysicalScale(options: EmbroideryOptions, physical: PhysicalSize): EmbroideryOptions {
+  if (!hasDesignSize(options.size)) return options;
+  return { ...options, threadThickness: threadPixels(physical.pixelsPerMm) };
+}
+
+function detectEdgesFor(quantized: QuantizationResult, options: EmbroideryOptions) {
+  return detectEdges(quantized, {
+    threadThickness: options.threadThickness,
+    rimWidth: options.border?.width ?? options.threadThickness,
+    edgeMode: options.style?.mode === 'logo' ? 'logo' : 'photo',
+    detector: options.style.edges,
+    ...(options.style.xdog ? { xdog: options.style.xdog } : {})
+  });
+}
+
+// Rim settings shared by the stitch planner and the estimate; border.color replaces the automatic darkest color
+function borderPlan(options: EmbroideryOptions): Omit<StitchPlanOptions, 'pixelsPerMm' | 'densityScale'> {
+  return {
+    borderStitch: options.border?.stitch !== false,
+    borderWidth: options.border?.width ?? options.threadThickness,
+    ...(options.border?.style ? { borderStyle: options.border.style } : {}),
+    ...(options.border?.color ? { borderColor: hexToRgb(options.border.color) } : {})
+  };
+}
+
+function estimateFor(quantized: QuantizationResult, rimBand: Uint8Array, physical: PhysicalSize, options: EmbroideryOptions, threads: ThreadMatch[] | undefined) {
+  return estimateStitches(quantized, rimBand, {
+    pixelsPerMm: physical.pixelsPerMm,
+    densityScale: options.density?.scale ?? 1,
+    ...borderPlan(options),
+    ...(options.machine?.spm !== undefined ? { spm: options.machine.spm } : {}),
+    ...(threads ? { threadCodes: threads.map(t => t.code) } : {})
+  });
+}
+
+/**
+ * Shared analysis stages: palette preparation, then edges and orientation in parallel. Also resolves the render seed.
+ */
+async function analyzeImage(input: Buffer, mime: string, requested: EmbroideryOptions, timings: Record<string, number>, context: RenderContext = {}) {
+  const { normalized, quantized, threads, paletteWarnings, options, quantizeKey } = await prepareQuantized(input, mime, requested, timings, context);
+  const seed = options.seed ?? seedFromBuffer(input);
+  const mode = options.style?.mode === 'logo' ? 'logo' : 'photo';
+
+  // **PARALLEL PROCESSING**: Run edges and orientation concurrently since both only depend on quantized data
+  const eo0 = process.hrtime.bigint();
+  const edgesStage = runStage(
+    context, 'edges',
+    [quantizeKey, options.threadThickness, options.border?.width ?? null, mode, options.style.edges, options.style.xdog ?? null],
+    () => detectEdgesFor(quantized, options)
+  );
+  const orientationStage = runStage(
+    context, 'orientation',
+    [quantizeKey, options.style.orientation, mode, seed],
+    () => computeOrientation(quantized, options.style.orientation, mode, seed)
+  );
+  const [edges, orientation] = await Promise.all([edgesStage.value, orientationStage.value]);
+  const eo1 = process.hrtime.bigint();
+  timings.edgesOrientationParallelMs = Number(eo1 - eo0) / 1e6;
+
+  const keys = { quantize: quantizeKey, edges: edgesStage.key, orientation: orientationStage.key };
+  return { normalized, quantized, edges, orientation, threads, paletteWarnings, options, seed, keys };
+}
+
+export async function processEmbroidery(input: Buffer, mime: string, requested: EmbroideryOptions, context: RenderContext = {}): Promise<ProcessingResult> {
+  const timings = stageTimings(context.onStage);
   const t0 = process.hrtime.bigint();
   try {
-    const n0 = process.hrtime.bigint();
-    const normalized = await normalizeImage(input, mime);
-    const n1 = process.hrtime.bigint();
-    timings.normalizeMs = Number(n1 - n0) / 1e6;
-
-    // Vector fast-path removed during cleanup; using raster pipeline for all modes
-
-    const q0 = process.hrtime.bigint();
-    const quantized = await quantizeColors(normalized, options.maxColors);
-    const q1 = process.hrtime.bigint();
-    timings.quantizeMs = Number(q1 - q0) / 1e6;
-
-    // **PARALLEL PROCESSING**: Run edges and orientation concurrently since both only depend on quantized data
-    const eo0 = process.hrtime.bigint();
-    const [edges, orientation] = await Promise.all([
-      detectEdges(quantized, { threadThickness: options.threadThickness, edgeMode: options.style?.mode === 'logo' ? 'logo' : 'photo' }),
-      computeOrientation(quantized, options.style.orientation, options.style?.mode === 'logo' ? 'logo' : 'photo')
-    ]);
-    const eo1 = process.hrtime.bigint();
-    timings.edgesOrientationParallelMs = Number(eo1 - eo0) / 1e6;
+    const { normalized, quantized, edges, orientation, threads, paletteWarnings, options, seed, keys } = await analyzeImage(input, mime, requested, timings, context);
+    const physical = normalized.physical;
 
     const densityScaleVal = options.density?.scale !== undefined ? options.density.scale : 1;
     const grainVal = options.grain?.randomness !== undefined ? options.grain.randomness : 0.15;
     const sheenVal = options.lighting?.sheen !== undefined ? options.lighting.sheen : 0.25;
 
     const tgen0 = process.hrtime.bigint();
-    const textures = await generateTextures(quantized, orientation, {
+    const textureOptions = {
       threadThickness: options.threadThickness,
-      hatch: options.hatch,
       densityScale: densityScaleVal,
       grainRandomness: grainVal,
-      sheen: sheenVal
-    });
+      sheen: sheenVal,
+      seed
+    };
+    const texturesStage = runStage(context, 'textures', [keys.quantize, keys.orientation, textureOptions], () => generateTextures(quantized, orientation, textureOptions));
+    const textures = await texturesStage.value;
     const tgen1 = process.hrtime.bigint();
     timings.texturesMs = Number(tgen1 - tgen0) / 1e6;
 
     const c0 = process.hrtime.bigint();
-    const final = await compositeImage(quantized, textures, edges, orientation, {
+    const compositeOptions = {
       threadThickness: options.threadThickness,
       preserveTransparency: options.preserveTransparency,
       sheen: sheenVal,
+      ...(options.lighting?.direction !== undefined ? { lightDirection: options.lighting.direction } : {}),
+      ...(options.lighting?.material ? { material: options.lighting.material } : {}),
       densityScale: densityScaleVal,
-      borderStitch: options.border?.stitch !== false
-    });
+      pixelsPerMm: physical.pixelsPerMm,
+      hatch: options.hatch,
+      ...(options.fill ? { fill: options.fill } : {}),
+      borderStitch: options.border?.stitch !== false,
+      border: {
+        width: options.border?.width ?? options.threadThickness,
+        ...(options.border?.style ? { style: options.border.style } : {}),
+        ...(options.border?.color ? { color: hexToRgb(options.border.color) } : {})
+      },
+      collectLayers: options.debug?.layers === true
+    };
+    const final = await runStage(
+      context, 'composite',
+      [keys.quantize, keys.edges, keys.orientation, texturesStage.key, compositeOptions],
+      () => compositeImage(quantized, textures, edges, orientation, compositeOptions)
+    ).value;
     const c1 = process.hrtime.bigint();
     timings.compositeMs = Number(c1 - c0) / 1e6;
 
+    // Output format: explicit option (or the negotiated Accept type), else follow the input. Mockups are always opaque.
+    const alpha = extractAlpha(quantized.data, quantized.info as any);
+    const template = options.mockup ? getTemplate(options.mockup.template) : undefined;
+    if (options.mockup && !template) throw new Error(`Unknown mockup template "${options.mockup.template}"`);
+    const transparent = !template && options.preserveTransparency && alpha.some(a => a < 255);
+    const format = resolveOutputFormat(options.output?.format, mime, transparent);
+    const outputWarnings: DesignWarning[] = [...normalized.warnings, ...paletteWarnings];
+    if (transparent && !supportsAlpha(format)) {
+      outputWarnings.push({ code: 'alpha_flattened', severity: 'info', message: `${format.toUpperCase()} output has no alpha channel; transparency was flattened onto the background` });
+    }
+
     const b0 = process.hrtime.bigint();
-    const result = await applyBackgroundLocal(final, options);
-    const b1 = process.hrtime.bigint();
-    timings.backgroundMs = Number(b1 - b0) / 1e6;
+    let background: { image: sharp.Sharp; info: { width: number; height: number } };
+    if (template) {
+      background = await renderMockup(final.buffer, template, options.mockup?.placement);
+      const b1 = process.hrtime.bigint();
+      timings.mockupMs = Number(b1 - b0) / 1e6;
+    } else {
+      background = await applyBackgroundLocal(final, options, !options.preserveTransparency || (transparent && !supportsAlpha(format)));
+      const b1 = process.hrtime.bigint();
+      timings.backgroundMs = Number(b1 - b0) / 1e6;
+    }
 
-    const alpha = extractAlpha(quantized.data, quantized.info as any);
-    const wr = computeWarnings(alpha, quantized.info.width, quantized.info.height, options.threadThickness, edges.edgeMap, options.maxColors, quantized.paletteSize);
+    // Physical output: record the DPI so print and layout tools place the design at its real size
+    if (hasDesignSize(options.size) && !template) background.image = background.image.withMetadata({ density: physical.dpi });
+
+    const en0 = process.hrtime.bigint();
+    const buffer = await encodeOutput(background.image, format, options.output?.quality);
+    const en1 = process.hrtime.bigint();
+    timings.encodeMs = Number(en1 - en0) / 1e6;
+
+    const wr = options.warnSmallDetails === false
+      ? { warnings: [] }
+      : computeWarnings(quantized, edges.edgeMap, { pixelsPerMm: physical.pixelsPerMm, threadThickness: options.threadThickness, maxColors: options.maxColors });
+    const estimate = estimateFor(quantized, edges.rimBand, physical, options, threads);
 
     const t1 = process.hrtime.bigint();
     timings.totalMs = Number(t1 - t0) / 1e6;
 
     console.log(JSON.stringify({ level: 'info', msg: 'embroidery.timings', timings }));
 
+    const meta = {
+      paletteSize: quantized.paletteSize,
+      originalSize: { width: normalized.info.width, height: normalized.info.height },
+      finalSize: background.info,
+      physicalSize: physical,
+      palette: quantized.palette,
+      seed,
+      warnings: [...wr.warnings, ...outputWarnings],
+      // Plain copy: the worker result is structured-cloned, which a Proxy doesn't survive
+      timings: { ...timings },
+      stitchEstimate: estimate.total,
+      estimate,
+      ...(threads ? { threads } : {})
+    };
+
+    // Debug dump: every intermediate layer in pipeline order, the timings and the encoded result
+    let debugArchive: Buffer | undefined;
+    if (options.debug?.layers) {
+      const { width, height } = normalized.info;
+      const layers: DebugLayer[] = [
+        { name: 'normalized', data: normalized.data, raw: { width, height, channels: 4 } },
+        { name: 'quantized', data: quantized.data, raw: { width, height, channels: 4 } },
+        maskLayer('edge-map', edges.edgeMap, width, height),
+        { name: 'edges-stitched', data: edges.edges },
+        maskLayer('rim-band', edges.rimBand, width, height),
+        orientationLayer('orientation-bins', orientation.orientationBins, orientation.numBins, width, height),
+        ...textures.threadTextures.map((data, i) => ({ name: `thread-texture-${i}`, data })),
+        ...(final.layers ?? []),
+        { name: 'composite', data: final.buffer }
+      ];
+      debugArchive = await writeDebugArchive(layers, [
+        { name: 'timings.json', data: Buffer.from(JSON.stringify(timings, null, 2)) },
+        { name: 'meta.json', data: Buffer.from(JSON.stringify(meta, null, 2)) },
+        { name: `output.${format === 'jpeg' ? 'jpg' : format}`, data: buffer }
+      ]);
+    }
+
+    return { buffer, mime: OUTPUT_MIME[format], meta, ...(debugArchive ? { debugArchive } : {}) };
+  } catch (error) {
+    const t1 = process.hrtime.bigint();
+    timings.totalMs = Number(t1 - t0) / 1e6;
+    console.error(JSON.stringify({ level: 'error', msg: 'embroidery.failure', timings, error: error instanceof Error ? error.message : String(error) }));
+    throw error;
+  }
+}
+
+/**
+ * Machine-embroidery export: plans fills and rim outlines from the analysis stages and serializes them
+ */
+export async function processStitches(input: Buffer, mime: string, requested: EmbroideryOptions, format: StitchFormat): Promise<StitchFileResult> {
+  const timings: Record<string, number> = {};
+  const t0 = process.hrtime.bigint();
+  try {
+    const { normalized, quantized, edges, orientation, options } = await analyzeImage(input, mime, requested, timings);
+
+    const p0 = process.hrtime.bigint();
+    const plan = planStitches(quantized, orientation, edges, {
+      pixelsPerMm: normalized.physical.pixelsPerMm,
+      densityScale: options.density?.scale ?? 1,
+      ...borderPlan(options)
+    });
+    const p1 = process.hrtime.bigint();
+    timings.stitchPlanMs = Number(p1 - p0) / 1e6;
+
+    const buffer = encodeStitchFile(plan, format);
+    const t1 = process.hrtime.bigint();
+    timings.totalMs = Number(t1 - t0) / 1e6;
+
+    console.log(JSON.stringify({ level: 'info', msg: 'stitches.timings', format, timings }));
+
+    return {
+      buffer,
+      mime: STITCH_FORMATS[format].mime,
+      extension: STITCH_FORMATS[format].extension,
+      meta: { physicalSize: normalized.physical, stitchCount: plan.stitchCount, colorChanges: plan.colorChanges, threads: plan.threads, extents: plan.extents, timings }
+    };
+  } catch (error) {
+    const t1 = process.hrtime.bigint();
+    timings.totalMs = Number(t1 - t0) / 1e6;
+    console.error(JSON.stringify({ level: 'error', msg: 'stitches.failure', timings, error: error instanceof Error ? error.message : String(error) }));
+    throw error;
+  }
+}
+
+/**
+ * Quote-only path: palette and rim detection feed the estimator, with no orientation, textures or compositing
+ */
+export async function processEstimate(input: Buffer, mime: string, requested: EmbroideryOptions): Promise<EstimateResult> {
+  const timings: Record<string, number> = {};
+  const t0 = process.hrtime.bigint();
+  try {
+    const { normalized, quantized, threads, options } = await prepareQuantized(input, mime, requested, timings);
+
+    const e0 = process.hrtime.bigint();
+    const edges = await detectEdgesFor(quantized, options);
+    const e1 = process.hrtime.bigint();
+    timings.edgesMs = Number(e1 - e0) / 1e6;
+
+    const estimate = estimateFor(quantized, edges.rimBand, normalized.physical, options, threads);
+    const t1 = process.hrtime.bigint();
+    timings.totalMs = Number(t1 - t0) / 1e6;
+
+    console.log(JSON.stringify({ level: 'info', msg: 'estimate.timings', timings }));
+
+    return { estimate, physicalSize: normalized.physical, palette: quantized.palette, ...(threads ? { threads } : {}), timings };
+  } catch (error) {
+    const t1 = process.hrtime.bigint();
+    timings.totalMs = Number(t1 - t0) / 1e6;
+    console.error(JSON.stringify({ level: 'error', msg: 'estimate.failure', timings, error: error instanceof Error ? error.message : String(error) }));
+    throw error;
+  }
+}
+
+/**
+ * Design review: the suitability checks plus merged colors, painted over the normalized input with a legend.
+ * Runs the same palette and edge stages as rendering, so the highlights match what the filter would produce.
+ */
+export async function processAnalysis(input: Buffer, mime: string, requested: EmbroideryOptions): Promise<AnalysisResult> {
+  const timings: Record<string, number> = {};
+  const t0 = process.hrtime.bigint();
+  try {
+    const { normalized, quantized, paletteWarnings, options } = await prepareQuantized(input, mime, requested, timings);
+
+    const e0 = process.hrtime.bigint();
+    const edges = await detectEdgesFor(quantized, options);
+    const e1 = process.hrtime.bigint();
+    timings.edgesMs = Number(e1 - e0) / 1e6;
+
+    const w0 = process.hrtime.bigint();
+    const problemMask = new Uint8Array(normalized.info.width * normalized.info.height);
+    const { warnings } = computeWarnings(quantized, edges.edgeMap, {
+      pixelsPerMm: normalized.physical.pixelsPerMm,
+      threadThickness: options.threadThickness,
+      maxColors: options.maxColors,
+      problemMask
+    });
+    markMergedColors(normalized, quantized, problemMask);
+    const w1 = process.hrtime.bigint();
+    timings.warningsMs = Number(w1 - w0) / 1e6;
+
+    const o0 = process.hrtime.bigint();
+    const overlay = await renderProblemOverlay(normalized, problemMask);
+    const o1 = process.hrtime.bigint();
+    timings.overlayMs = Number(o1 - o0) / 1e6;
+
+    const t1 = process.hrtime.bigint();
+    timings.totalMs = Number(t1 - t0) / 1e6;
+
+    console.log(JSON.stringify({ level: 'info', msg: 'analysis.timings', timings }));
+
     return {
-      buffer: result.buffer,
-      mime: result.mime,
-      meta: {
-        paletteSize: quantized.paletteSize,
-        originalSize: normalized.info,
-        finalSize: result.info,
-        palette: quantized.palette,
-        warnings: wr.warnings,
-        timings
-      }
+      buffer: overlay.buffer,
+      mime: 'image/png',
+      legend: overlay.legend,
+      warnings: [...warnings, ...normalized.warnings, ...paletteWarnings],
+      physicalSize: normalized.physical,
+      palette: quantized.palette,
+      timings
     };
   } catch (error) {
     const t1 = process.hrtime.bigint();
     timings.totalMs = Number(t1 - t0) / 1e6;
-    console.error(JSON.stringify({ level: 'error', msg: 'embroidery.failure', timings, error: (error as any)?.message }));
+    console.error(JSON.stringify({ level: 'error', msg: 'analysis.failure', timings, error: error instanceof Error ? error.message : String(error) }));
     throw error;
   }
 }
 
-async function normalizeImage(input: Buffer, mime: string) {
-  const maxSize = 2000;
-  const image = sharp(input).ensureAlpha().resize({ width: maxSize, height: maxSize, fit: 'inside', withoutEnlargement: true, fastShrinkOnLoad: true });
+async function normalizeImage(input: Buffer, mime: string, size?: DesignSize) {
+  const meta = await sharp(input).metadata();
+  const target = planDesignSize(meta.width ?? 1, meta.height ?? 1, size);
+  const image = sharp(input).ensureAlpha().resize({ width: target.width, height: target.height, fit: 'fill', fastShrinkOnLoad: true });
   const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
-  return { data, info };
+  return { data, info, physical: target.physical, warnings: target.warnings };
 }
 
-async function applyBackgroundLocal(composited: any, options: EmbroideryOptions) {
-  if (options.preserveTransparency) {
-    return { buffer: composited.buffer, mime: 'image/png', info: composited.info };
+/**
+ * Put the composite on its background when flattening; the caller picks the encoder
+ */
+async function applyBackgroundLocal(composited: CompositingResult, options: EmbroideryOptions, flatten: boolean): Promise<{ image: sharp.Sharp; info: { width: number; height: number } }> {
+  if (!flatten) {
+    return { image: sharp(composited.buffer), info: composited.info };
   }
   const info = composited.info;
   let backgroundBuffer: Buffer;
@@ -125,15 +498,8 @@ async function applyBackgroundLocal(composited: any, options: EmbroideryOptions)
     const r = parseInt(hex.slice(0,2),16)||229, g = parseInt(hex.slice(2,4),16)||224, b = parseInt(hex.slice(4,6),16)||214;
     backgroundBuffer = await sharp({ create: { width: info.width, height: info.height, channels: 3, background: { r, g, b } } }).png().toBuffer();
   } else {
-    const candidates = [ `assets/fabrics/${options.background.name}.jpg`, `assets/fabrics/${options.background.name}.jpeg`, `assets/fabrics/${options.background.name}.png` ];
-    let s: sharp.Sharp | null = null;
-    for (const p of candidates) { try { const test = sharp(p); await test.metadata(); s = test; break; } catch {} }
-    if (!s) {
-      backgroundBuffer = await sharp({ create: { width: info.width, height: info.height, channels: 3, background: { r:229, g:224, b:214 } } }).png().toBuffer();
-    } else {
-      backgroundBuffer = await s.resize(info.width, info.height, { fit: 'cover' }).toBuffer();
-    }
+    const fabric = await renderFabricBackground(options.background.name ?? '', options.background.hex, options.threadThickness, info.width, info.height);
+    backgroundBuffer = fabric ?? await sharp({ create: { width: info.width, height: info.height, channels: 3, background: { r:229, g:224, b:214 } } }).png().toBuffer();
   }
-  const result = await sharp(backgroundBuffer).composite([{ input: composited.buffer }]).png().toBuffer();
-  return { buffer: result, mime: 'image/png', info };
+  return { image: sharp(backgroundBuffer).composite([{ input: composited.buffer }]), info };
 }
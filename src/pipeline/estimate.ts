@@ -0,0 +1,168 @@
+import sharp from 'sharp';
+import {
+  labelPalette, borderColor, resolveBorderStyle,
+  FILL_ROW_SPACING_MM, FILL_MAX_STITCH_MM, RUN_STITCH_MM, SATIN_SPACING_MM, MERROW_SPACING_MM, MIN_REGION_MM2,
+  type StitchPlanOptions
+} from './stitches.ts';
+
+export interface ColorEstimate {
+  // Palette index; an outline color that is not in the palette is listed last, with index palette.length
+  index: number;
+  color: { r: number; g: number; b: number };
+  thread?: string;
+  areaMm2: number;
+  fillStitches: number;
+  satinStitches: number;
+  runningStitches: number;
+  stitches: number;
+  threadLengthM: number;
+}
+
+export interface StitchEstimate {
+  total: number;
+  colors: ColorEstimate[];
+  colorChanges: number;
+  trims: number;
+  threadLengthM: number;
+  spm: number;
+  runTimeMinutes: number;
+}
+
+export interface EstimateOptions extends StitchPlanOptions {
+  spm?: number;
+  // Catalog codes aligned with the palette, copied onto each color
+  threadCodes?: string[];
+}
+
+export const DEFAULT_SPM = 800;
+
+// Top thread used per unit of stitched length: the thread dips into the fabric at every needle penetration
+const THREAD_TAKEUP = 1.2;
+// Machine time spent on each color change / trim (seconds)
+const COLOR_CHANGE_SECONDS = 5;
+const TRIM_SECONDS = 3;
+
+/**
+ * Production estimate without planning stitches: per-color fill from region areas at the planner's row spacing and
+ * stitch length, the rim as satin or running stitch in the outline color, and trims from disconnected regions.
+ * Mirrors planStitches() so quotes match exported files.
+ */
+export function estimateStitches(
+  quantized: { data: Buffer; info: sharp.Raw; palette: Array<{ r: number; g: number; b: number; a: number }> },
+  rimBand: Uint8Array,
+  options: EstimateOptions
+): StitchEstimate {
+  const { data, info, palette } = quantized;
+  const { width, height } = info;
+  const ppm = options.pixelsPerMm;
+  const density = Math.max(0.5, Math.min(2, options.densityScale ?? 1));
+  const spm = options.spm ?? DEFAULT_SPM;
+
+  const labels = labelPalette(data, width, height, info.channels, palette);
+  const minArea = MIN_REGION_MM2 * ppm * ppm;
+  const { areas, components } = regionComponents(labels, width, height, palette.length, minArea);
+
+  const colors: ColorEstimate[] = palette.map((c, index) => ({
+    index,
+    color: { r: c.r, g: c.g, b: c.b },
+    ...(options.threadCodes?.[index] ? { thread: options.threadCodes[index] } : {}),
+    areaMm2: 0, fillStitches: 0, satinStitches: 0, runningStitches: 0, stitches: 0, threadLengthM: 0
+  }));
+
+  // Same block order as the planner: fills in palette order, then the rim in the outline color
+  const blockColors: number[] = [];
+  let trims = 0;
+  const rowSpacingMm = FILL_ROW_SPACING_MM / density;
+  colors.forEach((entry, index) => {
+    const area = areas[index] ?? 0;
+    if (area < minArea) return;
+    const areaMm2 = area / (ppm * ppm);
+    entry.areaMm2 = Math.round(areaMm2 * 10) / 10;
+    entry.fillStitches = Math.round(areaMm2 / (rowSpacingMm * FILL_MAX_STITCH_MM));
+    entry.threadLengthM += (areaMm2 / rowSpacingMm) * THREAD_TAKEUP / 1000;
+    trims += Math.max(0, (components[index] ?? 1) - 1);
+    blockColors.push(index);
+  });
+
+  let rim = 0;
+  if (options.borderStitch !== false) for (let i = 0; i < rimBand.length; i++) if (rimBand[i]) rim++;
+  if (rim > 0 && palette.length) {
+    const borderWidth = Math.max(1, options.borderWidth ?? 3);
+    const rimLengthMm = rim / borderWidth / ppm;
+    const outline = options.borderColor ?? borderColor(palette);
+    let index = colors.findIndex(c => c.color.r === outline.r && c.color.g === outline.g && c.color.b === outline.b);
+    if (index < 0) {
+      index = colors.length;
+      colors.push({ index, color: { r: outline.r, g: outline.g, b: outline.b }, areaMm2: 0, fillStitches: 0, satinStitches: 0, runningStitches: 0, stitches: 0, threadLengthM: 0 });
+    }
+    const entry = colors[index]!;
+    const style = resolveBorderStyle(options.borderStyle, borderWidth, ppm);
+    if (style === 'satin' || style === 'merrow') {
+      entry.satinStitches = Math.round(rimLengthMm / (style === 'merrow' ? MERROW_SPACING_MM : SATIN_SPACING_MM));
+      entry.threadLengthM += entry.satinStitches * (borderWidth / ppm) * THREAD_TAKEUP / 1000;
+    } else {
+      // Bean stitch sews every running stitch three times
+      const passes = style === 'bean' ? 3 : 1;
+      entry.runningStitches = Math.round((rimLengthMm / RUN_STITCH_MM) * passes);
+      entry.threadLengthM += rimLengthMm * passes * THREAD_TAKEUP / 1000;
+    }
+    blockColors.push(index);
+  }
+
+  let colorChanges = 0;
+  for (let i = 1; i < blockColors.length; i++) {
+    const a = colors[blockColors[i - 1]!]!.color, b = colors[blockColors[i]!]!.color;
+    if (a.r !== b.r || a.g !== b.g || a.b !== b.b) colorChanges++;
+  }
+  // Machines trim before every color change as well as on long jumps
+  trims += colorChanges;
+
+  let total = 0, threadLengthM = 0;
+  for (const entry of colors) {
+    entry.stitches = entry.fillStitches + entry.satinStitches + entry.runningStitches;
+    entry.threadLengthM = Math.round(entry.threadLengthM * 100) / 100;
+    total += entry.stitches;
+    threadLengthM += entry.threadLengthM;
+  }
+
+  const runTimeMinutes = total / spm + (colorChanges * COLOR_CHANGE_SECONDS + trims * TRIM_SECONDS) / 60;
+  return {
+    total,
+    colors,
+    colorChanges,
+    trims,
+    threadLengthM: Math.round(threadLengthM * 100) / 100,
+    spm,
+    runTimeMinutes: Math.round(runTimeMinutes * 10) / 10
+  };
+}
+
+/**
+ * Pixel area and number of 4-connected regions (of at least `minArea` pixels) per palette label
+ */
+function regionComponents(labels: Uint8Array, width: number, height: number, count: number, minArea: number): { areas: number[]; components: number[] } {
+  const areas = new Array<number>(count).fill(0);
+  const components = new Array<number>(count).fill(0);
+  const visited = new Uint8Array(labels.length);
+  const stack = new Int32Array(labels.length);
+
+  for (let start = 0; start < labels.length; start++) {
+    const label = labels[start]!;
+    if (label === 255 || visited[start]) continue;
+    let top = 0, size = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    while (top > 0) {
+      const p = stack[--top]!;
+      size++;
+      const x = p % width, y = (p - x) / width;
+      if (x > 0 && !visited[p - 1] && labels[p - 1] === label) { visited[p - 1] = 1; stack[top++] = p - 1; }
+      if (x < width - 1 && !visited[p + 1] && labels[p + 1] === label) { visited[p + 1] = 1; stack[top++] = p + 1; }
+      if (y > 0 && !visited[p - width] && labels[p - width] === label) { visited[p - width] = 1; stack[top++] = p - width; }
+      if (y < height - 1 && !visited[p + width] && labels[p + width] === label) { visited[p + width] = 1; stack[top++] = p + width; }
+    }
+    areas[label]! += size;
+    if (size >= minArea) components[label]!++;
+  }
+  return { areas, components };
+}
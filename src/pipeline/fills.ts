@@ -0,0 +1,254 @@
+import { getBinAngle } from './orientation.ts';
+import { FILL_ROW_SPACING_MM, FILL_MAX_STITCH_MM, SATIN_SPACING_MM } from './stitches.ts';
+
+export type FillType = 'tatami' | 'satin' | 'cross' | 'applique';
+
+export interface FillSettings {
+  // 'auto' classifies each region by width: satin below satinMaxWidthMm, tatami (or cross with hatch "cross") above
+  type?: FillType | 'auto';
+  satinMaxWidthMm?: number;
+  // angle in degrees (default: along the region's thread direction); offset is the row-to-row stagger of needle
+  // points as a fraction of the stitch length
+  tatami?: { angle?: number; offset?: number };
+  cross?: { cellMm?: number };
+  overrides?: Array<{ index: number; type?: FillType | 'auto'; angle?: number }>;
+}
+
+export interface FillRegion {
+  // Palette index
+  label: number;
+  // 'none' keeps the region flat (hatch "none" with automatic fills)
+  type: FillType | 'none';
+  area: number;
+  // Widest point: twice the largest distance from the region's outline
+  widthMm: number;
+  // Tatami row direction in radians
+  angle: number;
+}
+
+export interface FillPlan {
+  regions: FillRegion[];
+  // Region index per pixel, -1 where transparent
+  regionOf: Int32Array;
+  // Chamfer distance to the nearest outline, in thirds of a pixel
+  distance: Uint16Array;
+}
+
+export const DEFAULT_SATIN_MAX_WIDTH_MM = 6;
+export const DEFAULT_TATAMI_OFFSET = 1 / 3;
+export const DEFAULT_CROSS_CELL_MM = 2;
+// Applique: the fabric piece is tacked down with a satin edge this wide
+const APPLIQUE_EDGE_MM = 2;
+// Plain-weave period of applique fabric
+const WEAVE_MM = 0.4;
+// Chamfer 3-4 weights: a straight step costs 3, a diagonal step 4
+const CHAMFER_STRAIGHT = 3;
+const CHAMFER_DIAGONAL = 4;
+// Local satin directions are snapped to this many angles
+const SATIN_DIRECTIONS = 16;
+
+/**
+ * Segment the palette labels into 4-connected regions and pick a fill type and row angle for each, from the settings,
+ * the per-palette overrides and the region's width.
+ */
+export function planFills(
+  labels: Uint8Array,
+  width: number,
+  height: number,
+  orientation: { orientationBins: Uint8Array; numBins?: number },
+  pixelsPerMm: number,
+  settings: FillSettings,
+  hatch: 'none' | 'diagonal' | 'cross' = 'diagonal'
+): FillPlan {
+  const numBins = orientation.numBins ?? 6;
+  const distance = chamferDistance(labels, width, height);
+  const regionOf = new Int32Array(labels.length).fill(-1);
+  const regions: FillRegion[] = [];
+  const stack = new Int32Array(labels.length);
+  const hist = new Array<number>(numBins);
+  const overrides = new Map((settings.overrides ?? []).map(o => [o.index, o]));
+  const satinMax = (settings.satinMaxWidthMm ?? DEFAULT_SATIN_MAX_WIDTH_MM) * pixelsPerMm;
+
+  for (let start = 0; start < labels.length; start++) {
+    const label = labels[start]!;
+    if (label === 255 || regionOf[start] !== -1) continue;
+    const index = regions.length;
+    let area = 0, maxDistance = 0, top = 0;
+    hist.fill(0);
+    stack[top++] = start; regionOf[start] = index;
+    while (top) {
+      const p = stack[--top]!;
+      area++;
+      const d = distance[p]!;
+      if (d > maxDistance) maxDistance = d;
+      // Thread direction is sampled on the outline, where the gradient is meaningful
+      if (d === CHAMFER_STRAIGHT) hist[orientation.orientationBins[p]! % numBins]!++;
+      const x = p % width;
+      if (x > 0 && labels[p - 1] === label && regionOf[p - 1] === -1) { regionOf[p - 1] = index; stack[top++] = p - 1; }
+      if (x < width - 1 && labels[p + 1] === label && regionOf[p + 1] === -1) { regionOf[p + 1] = index; stack[top++] = p + 1; }
+      if (p >= width && labels[p - width] === label && regionOf[p - width] === -1) { regionOf[p - width] = index; stack[top++] = p - width; }
+      if (p + width < labels.length && labels[p + width] === label && regionOf[p + width] === -1) { regionOf[p + width] = index; stack[top++] = p + width; }
+    }
+
+    let best = 0, samples = 0;
+    for (let b = 0; b < numBins; b++) {
+      samples += hist[b]!;
+      if (hist[b]! > hist[best]!) best = b;
+    }
+    const widthPx = (2 * maxDistance) / CHAMFER_STRAIGHT;
+    const override = overrides.get(label);
+    const requested = override?.type ?? settings.type ?? 'auto';
+    let type: FillRegion['type'];
+    if (requested !== 'auto') type = requested;
+    else if (widthPx < satinMax) type = 'satin';
+    else type = hatch === 'cross' ? 'cross' : hatch === 'none' ? 'none' : 'tatami';
+
+    // Rows run along the contour flow, perpendicular to the dominant gradient, unless an angle is given
+    const degrees = override?.angle ?? settings.tatami?.angle;
+    const angle = degrees !== undefined
+      ? (degrees * Math.PI) / 180
+      : samples ? getBinAngle(best, numBins) + Math.PI / 2 : Math.PI / 4;
+    regions.push({ label, type, area, widthMm: Math.round((widthPx / pixelsPerMm) * 10) / 10, angle });
+  }
+  return { regions, regionOf, distance };
+}
+
+/**
+ * Overlay layer (gray 128 is neutral) with each region's stitch structure: tatami rows with staggered needle points,
+ * satin stitches across the column, cross-stitch Xs on a grid, or applique fabric inside a satin edge.
+ * Alpha follows the design's alpha.
+ */
+export function renderFillLayer(
+  plan: FillPlan,
+  alpha: Buffer,
+  width: number,
+  height: number,
+  options: { pixelsPerMm: number; densityScale?: number; tatamiOffset?: number; crossCellMm?: number }
+): Buffer {
+  const { regions, regionOf, distance } = plan;
+  const ppm = options.pixelsPerMm;
+  const density = Math.max(0.5, Math.min(2, options.densityScale ?? 1));
+  const rowSpacing = Math.max(2, (FILL_ROW_SPACING_MM * ppm) / density);
+  const stitchLength = Math.max(4, FILL_MAX_STITCH_MM * ppm);
+  const offset = options.tatamiOffset ?? DEFAULT_TATAMI_OFFSET;
+  const satinSpacing = Math.max(2, (SATIN_SPACING_MM * ppm) / density);
+  const cell = Math.max(3, (options.crossCellMm ?? DEFAULT_CROSS_CELL_MM) * ppm);
+  const weave = Math.max(2, WEAVE_MM * ppm);
+  const appliqueEdge = APPLIQUE_EDGE_MM * ppm * CHAMFER_STRAIGHT;
+
+  // Row axes per region
+  const dirX = new Float32Array(regions.length), dirY = new Float32Array(regions.length);
+  regions.forEach((r, i) => { dirX[i] = Math.cos(r.angle); dirY[i] = Math.sin(r.angle); });
+  const satinX = new Float32Array(SATIN_DIRECTIONS), satinY = new Float32Array(SATIN_DIRECTIONS);
+  for (let k = 0; k < SATIN_DIRECTIONS; k++) {
+    satinX[k] = Math.cos((k * Math.PI) / SATIN_DIRECTIONS);
+    satinY[k] = Math.sin((k * Math.PI) / SATIN_DIRECTIONS);
+  }
+
+  const out = Buffer.alloc(width * height * 4);
+  for (let y = 0, i = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, i++) {
+      const r = regionOf[i]!;
+      const a = alpha[i]!;
+      if (r < 0 || !a) continue;
+      const region = regions[r]!;
+      const d = distance[i]!;
+      let value = 128;
+
+      let type = region.type;
+      if (type === 'applique' && d <= appliqueEdge) type = 'satin';
+      if (type === 'tatami') {
+        const s = (x * -dirY[r]! + y * dirX[r]!) / rowSpacing;
+        const row = Math.floor(s);
+        // Needle points shift by `offset` of a stitch from one row to the next
+        const shift = row * offset - Math.floor(row * offset);
+        const t = (x * dirX[r]! + y * dirY[r]!) / stitchLength - shift;
+        const along = (t - Math.floor(t)) * stitchLength;
+        // Rows bulge between the gaps; needle points sink in
+        value = 96 + 56 * Math.sin(Math.PI * (s - row));
+        if (along < 1.2) value -= 45;
+      } else if (type === 'satin') {
+        // Satin stitches run across the column, i.e. along the distance field's gradient
+        const gx = (x < width - 1 ? distance[i + 1]! : d) - (x > 0 ? distance[i - 1]! : d);
+        const gy = (y < height - 1 ? distance[i + width]! : d) - (y > 0 ? distance[i - width]! : d);
+        let k: number;
+        if (gx || gy) {
+          let angle = Math.atan2(gy, gx);
+          if (angle < 0) angle += Math.PI;
+          k = Math.round((angle / Math.PI) * SATIN_DIRECTIONS) % SATIN_DIRECTIONS;
+        } else {
+          k = Math.round((((region.angle + Math.PI / 2) % Math.PI) / Math.PI) * SATIN_DIRECTIONS) % SATIN_DIRECTIONS;
+        }
+        const u = (x * -satinY[k]! + y * satinX[k]!) / satinSpacing;
+        value = 108 + 64 * Math.sin(Math.PI * (u - Math.floor(u)));
+        // Stitches roll over the column edge
+        if (d < 2 * CHAMFER_STRAIGHT) value -= 30 * (1 - d / (2 * CHAMFER_STRAIGHT));
+      } else if (type === 'cross') {
+        const fx = x / cell - Math.floor(x / cell), fy = y / cell - Math.floor(y / cell);
+        const under = Math.abs(fx - fy), over = Math.abs(fx + fy - 1);
+        if (fx < 0.08 || fy < 0.08) value = 60; // holes between cells
+        else if (over < 0.18) value = 165 - over * 120; // top leg
+        else if (under < 0.18) value = 145 - under * 120;
+        else value = 80; // fabric between the legs
+      } else if (type === 'applique') {
+        // Plain weave: warp and weft alternate every weave period
+        const wx = Math.floor(x / weave), wy = Math.floor(y / weave);
+        const warp = (wx + wy) % 2 === 0;
+        const f = warp ? x / weave - wx : y / weave - wy;
+        value = 118 + 20 * Math.sin(Math.PI * f) + (warp ? 6 : -6);
+      }
+
+      const v = Math.max(0, Math.min(255, Math.round(value)));
+      const p = i * 4;
+      out[p] = v; out[p + 1] = v; out[p + 2] = v; out[p + 3] = a;
+    }
+  }
+  return out;
+}
+
+/**
+ * Pixels where thread-direction textures belong: everything except cross-stitch and the applique fabric, which carry
+ * their own structure
+ */
+export function threadTextureMask(plan: FillPlan, pixelsPerMm: number): Uint8Array | null {
+  if (!plan.regions.some(r => r.type === 'cross' || r.type === 'applique')) return null;
+  const appliqueEdge = APPLIQUE_EDGE_MM * pixelsPerMm * CHAMFER_STRAIGHT;
+  const mask = new Uint8Array(plan.regionOf.length);
+  for (let i = 0; i < mask.length; i++) {
+    const r = plan.regionOf[i]!;
+    const type = r < 0 ? 'none' : plan.regions[r]!.type;
+    mask[i] = type === 'cross' || (type === 'applique' && plan.distance[i]! > appliqueEdge) ? 0 : 255;
+  }
+  return mask;
+}
+
+/**
+ * Chamfer (3-4) distance from every opaque pixel to the nearest pixel of another label, transparency or the image edge
+ */
+function chamferDistance(labels: Uint8Array, width: number, height: number): Uint16Array {
+  const d = new Uint16Array(labels.length);
+  for (let y = 0, i = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, i++) {
+      const l = labels[i]!;
+      if (l === 255) continue;
+      const edge = x === 0 || y === 0 || x === width - 1 || y === height - 1
+        || labels[i - 1] !== l || labels[i + 1] !== l || labels[i - width] !== l || labels[i + width] !== l;
+      d[i] = edge ? CHAMFER_STRAIGHT : 65535;
+    }
+  }
+  for (let y = 1; y < height; y++) {
+    for (let x = 1, i = y * width + 1; x < width - 1; x++, i++) {
+      if (d[i]! <= CHAMFER_STRAIGHT) continue;
+      d[i] = Math.min(d[i]!, d[i - 1]! + CHAMFER_STRAIGHT, d[i - width]! + CHAMFER_STRAIGHT,
+        d[i - width - 1]! + CHAMFER_DIAGONAL, d[i - width + 1]! + CHAMFER_DIAGONAL);
+    }
+  }
+  for (let y = height - 2; y >= 0; y--) {
+    for (let x = width - 2, i = y * width + x; x > 0; x--, i--) {
+      if (d[i]! <= CHAMFER_STRAIGHT) continue;
+      d[i] = Math.min(d[i]!, d[i + 1]! + CHAMFER_STRAIGHT, d[i + width]! + CHAMFER_STRAIGHT,
+        d[i + width + 1]! + CHAMFER_DIAGONAL, d[i + width - 1]! + CHAMFER_DIAGONAL);
+    }
+  }
+  return d;
+}
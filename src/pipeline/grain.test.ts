@@ -0,0 +1,29 @@
+import { grainStitches } from './grain.ts';
+import { seededRandom } from './utils.ts';
+
+// Thread grain is drawn on canvas, but the layout it draws is where the seed goes in
+describe('grain stitches', () => {
+  const layout = (seed: number, grain = 0.5) => grainStitches(64, 3, 1, grain, seededRandom(seed));
+
+  it('repeats exactly for the same seed', () => {
+    expect(layout(1234)).toEqual(layout(1234));
+  });
+
+  it('changes with the seed', () => {
+    expect(layout(1234)).not.toEqual(layout(1235));
+  });
+
+  it('varies position, width, tilt and brightness with grain', () => {
+    const stitches = layout(1234, 1);
+    for (const key of ['width', 'tilt', 'tone'] as const) {
+      expect(new Set(stitches.map(s => s[key])).size).toBeGreaterThan(1);
+    }
+    expect(stitches.some(s => s.x % 4 !== 0)).toBe(true);
+  });
+
+  it('lays regular threads without grain', () => {
+    const stitches = layout(1234, 0);
+    expect(new Set(stitches.map(s => s.x % 4))).toEqual(new Set([0]));
+    expect(stitches.every(s => s.width === 3 && s.tilt === 0 && s.tone === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+// Grain at randomness 1: thread position/width jitter (fraction of the thread), stitch brightness spread and
+// per-thread angle noise (degrees)
+const GRAIN_JITTER = 0.35;
+const GRAIN_BRIGHTNESS = 0.3;
+const GRAIN_ANGLE = 6;
+
+// One stitch of a grainy thread texture in the texture's rotated frame: top-left corner at (x, y), tilted about its
+// center by `tilt` radians, brightness scaled by `tone`
+export interface GrainStitch {
+  x: number;
+  y: number;
+  width: number;
+  length: number;
+  tilt: number;
+  tone: number;
+}
+
+/**
+ * Stitch layout of a grainy thread texture: each thread is laid as a run of stitches whose position, width, tilt and
+ * brightness wander a little, scaled by `grain` (0-1). All randomness comes from `rand`, so a seeded generator
+ * always yields the same layout.
+ */
+export function grainStitches(size: number, thickness: number, density: number, grain: number, rand: () => number): GrainStitch[] {
+  const threadSpacing = Math.max(2, Math.round(thickness * 1.2 / density));
+  const threadCount = Math.ceil(size / threadSpacing);
+  const length = Math.max(4, thickness * 4);
+  const jitter = (amount: number) => (rand() - 0.5) * 2 * amount * grain;
+  const stitches: GrainStitch[] = [];
+
+  for (let i = 0; i < threadCount; i++) {
+    const x = i * threadSpacing + jitter(GRAIN_JITTER * thickness);
+    const width = Math.max(1, thickness * (1 + jitter(GRAIN_JITTER)));
+    const tilt = (jitter(GRAIN_ANGLE) * Math.PI) / 180;
+    // Stagger stitch ends between neighbouring threads
+    for (let y = -rand() * length; y < size; y += length) {
+      stitches.push({ x, y, width, length, tilt, tone: 1 + jitter(GRAIN_BRIGHTNESS) });
+    }
+  }
+  return stitches;
+}
@@ -0,0 +1,97 @@
+import { getBinAngle } from './orientation.ts';
+
+export type ThreadMaterial = 'matte' | 'rayon' | 'metallic';
+
+export interface LightingOptions {
+  sheen: number;
+  // Compass direction the light comes from, in degrees: 0 from the top, 90 from the right
+  direction: number;
+  material: ThreadMaterial;
+  threadThickness: number;
+  densityScale?: number;
+}
+
+// specular: highlight gain; shininess: highlight tightness (Kajiya-Kay exponent); bump: thread crown height, as the
+// slope of the cross-section at its edges
+export const THREAD_MATERIALS: Record<ThreadMaterial, { specular: number; shininess: number; bump: number }> = {
+  matte: { specular: 0.25, shininess: 2, bump: 0.5 },
+  rayon: { specular: 0.8, shininess: 8, bump: 0.6 },
+  metallic: { specular: 1.2, shininess: 24, bump: 0.8 }
+};
+
+export const DEFAULT_LIGHT_DIRECTION = 315;
+// Light elevation above the fabric
+const LIGHT_ELEVATION = Math.PI / 4;
+// Cross-section and along-stitch resolution of the per-bin shading tables
+const PROFILE_STEPS = 32;
+
+/**
+ * Overlay layer (gray 128 is neutral) that lights each thread from its orientation bin: an anisotropic highlight that
+ * peaks where threads run across the light, and a bump per thread and stitch so one flank faces the light and the
+ * needle points sink in. Alpha follows the design's alpha.
+ */
+export function renderSheenLayer(
+  orientationBins: Uint8Array, numBins: number, alpha: Buffer, width: number, height: number, options: LightingOptions
+): Buffer {
+  const material = THREAD_MATERIALS[options.material];
+  const density = Math.max(0.5, Math.min(2, options.densityScale ?? 1));
+  // Same thread spacing and stitch length as the thread textures
+  const spacing = Math.max(2, Math.round(options.threadThickness * 1.2 / density));
+  const stitchLength = Math.max(4, options.threadThickness * 4);
+
+  const azimuth = (options.direction * Math.PI) / 180;
+  const lx = Math.sin(azimuth) * Math.cos(LIGHT_ELEVATION);
+  const ly = -Math.cos(azimuth) * Math.cos(LIGHT_ELEVATION);
+  const lz = Math.sin(LIGHT_ELEVATION);
+  // Kajiya-Kay floor: the highlight never drops below what the light's elevation alone gives
+  const specFloor = Math.pow(lz * lz, material.shininess / 2);
+
+  // Per bin: thread tangent and across-thread axis, plus a (cross-section × along-stitch) table of overlay values
+  const tangent = new Float32Array(numBins * 2);
+  const across = new Float32Array(numBins * 2);
+  const tables = new Uint8Array(numBins * PROFILE_STEPS * PROFILE_STEPS);
+  for (let b = 0; b < numBins; b++) {
+    // Bins hold the gradient angle; threads run along the edge, perpendicular to it
+    const phi = getBinAngle(b, numBins) + Math.PI / 2;
+    const tx = Math.cos(phi), ty = Math.sin(phi);
+    tangent[b * 2] = tx; tangent[b * 2 + 1] = ty;
+    across[b * 2] = -ty; across[b * 2 + 1] = tx;
+
+    const tl = tx * lx + ty * ly;
+    const spec = (Math.pow(1 - tl * tl, material.shininess / 2) - specFloor) / (1 - specFloor);
+    const acrossLight = -ty * lx + tx * ly;
+
+    for (let si = 0; si < PROFILE_STEPS; si++) {
+      const s = (si + 0.5) / PROFILE_STEPS;
+      const crown = Math.sin(Math.PI * s);
+      const tilt = material.bump * Math.cos(Math.PI * s);
+      // Bumped normal (-tilt along the across axis, up otherwise) against the light, relative to flat fabric
+      const diffuse = (-tilt * acrossLight + lz) / Math.sqrt(1 + tilt * tilt) - lz;
+      for (let ti = 0; ti < PROFILE_STEPS; ti++) {
+        const t = (ti + 0.5) / PROFILE_STEPS;
+        // Threads dip into the fabric at the needle points
+        const dip = Math.pow(Math.sin(Math.PI * t), 0.3);
+        const highlight = options.sheen * material.specular * spec * crown * crown * dip;
+        const value = 128 * (1 + diffuse) * (0.85 + 0.15 * dip) + 127 * highlight;
+        tables[(b * PROFILE_STEPS + si) * PROFILE_STEPS + ti] = Math.max(0, Math.min(255, Math.round(value)));
+      }
+    }
+  }
+
+  const out = Buffer.alloc(width * height * 4);
+  for (let y = 0, i = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, i++) {
+      const a = alpha[i]!;
+      if (!a) continue;
+      const b = orientationBins[i]! % numBins;
+      const u = (x * across[b * 2]! + y * across[b * 2 + 1]!) / spacing;
+      const v = (x * tangent[b * 2]! + y * tangent[b * 2 + 1]!) / stitchLength;
+      const si = Math.floor((u - Math.floor(u)) * PROFILE_STEPS);
+      const ti = Math.floor((v - Math.floor(v)) * PROFILE_STEPS);
+      const value = tables[(b * PROFILE_STEPS + si) * PROFILE_STEPS + ti]!;
+      const p = i * 4;
+      out[p] = value; out[p + 1] = value; out[p + 2] = value; out[p + 3] = a;
+    }
+  }
+  return out;
+}
@@ -1,61 +1,52 @@
 import sharp from 'sharp';
-import { binsFromGradients } from './utils.ts';
+import { binsFromGradients, gaussianBlurFloat, seededRandom, sobel } from './utils.ts';
 
 interface OrientationResult {
   orientationField: Float32Array;
   orientationBins: Uint8Array;
+  numBins: number;
   method: string;
+  // Continuous field resolution and the flow-aligned streak texture, present in 'lic' mode
+  fieldSize?: { width: number; height: number };
+  lic?: { texture: Uint8Array; width: number; height: number };
 }
 
+// LIC tuning: analysis size of the structure tensor, max texture size and streamline half-length (texture px)
+const LIC_FIELD_SIZE = 300;
+const LIC_MAX_SIZE = 720;
+const LIC_LENGTH = 8;
+const TENSOR_SIGMA = 1.5;
+
 export async function computeOrientation(
   quantized: { data: Buffer; info: sharp.Raw },
   orientationMethod: 'binned-8' | 'lic',
-  mode: 'photo' | 'logo' = 'photo'
+  mode: 'photo' | 'logo' = 'photo',
+  seed: number = 1
 ): Promise<OrientationResult> {
   try {
     const { data, info } = quantized;
 
+    if (orientationMethod === 'lic') return await computeLicOrientation(quantized, mode, seed);
+
     // **AGGRESSIVE downscaling for 3-4x speedup**
     const ANALYSIS_SIZE = mode === 'logo' ? 300 : 400;
-    const downscaledInfo = {
-      width: Math.min(info.width, ANALYSIS_SIZE),
-      height: Math.min(info.height, ANALYSIS_SIZE),
-      channels: 1
-    };
-
-    // **Use Sharp's native operations instead of JS loops**
-    const grayBuffer = await sharp(data, { raw: info })
-      .resize(downscaledInfo.width, downscaledInfo.height, { 
+
+    // Single-channel gray at analysis size; 'inside' keeps the aspect ratio, so read the real size back
+    const { data: grayBuffer, info: downscaledInfo } = await sharp(data, { raw: info })
+      .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { 
         fit: 'inside', 
         withoutEnlargement: true,
         kernel: 'nearest' // Fastest resize kernel
       })
+      .flatten({ background: { r: 255, g: 255, b: 255 } })
       .greyscale()
+      .extractChannel(0)
       .blur(0.5) // Native Gaussian blur 
       .raw()
-      .toBuffer();
+      .toBuffer({ resolveWithObject: true });
 
-    // **Sharp's native Sobel convolution**
-    const Kx = [-1, 0, 1, -2, 0, 2, -1, 0, 1]; // Sobel X
-    const Ky = [-1, -2, -1, 0, 0, 0, 1, 2, 1]; // Sobel Y
-
-    const [gxBuffer, gyBuffer] = await Promise.all([
-      sharp(grayBuffer, { raw: { width: downscaledInfo.width, height: downscaledInfo.height, channels: 1 } })
-        .convolve({ width: 3, height: 3, kernel: Kx, scale: 1, offset: 0 })
-        .raw()
-        .toBuffer(),
-      sharp(grayBuffer, { raw: { width: downscaledInfo.width, height: downscaledInfo.height, channels: 1 } })
-        .convolve({ width: 3, height: 3, kernel: Ky, scale: 1, offset: 0 })
-        .raw()
-        .toBuffer()
-    ]);
-
-    // Convert to Float32Array for gradient binning
-    const gxInt16 = new Int16Array(gxBuffer.buffer, gxBuffer.byteOffset, gxBuffer.byteLength / Int16Array.BYTES_PER_ELEMENT);
-    const gyInt16 = new Int16Array(gyBuffer.buffer, gyBuffer.byteOffset, gyBuffer.byteLength / Int16Array.BYTES_PER_ELEMENT);
-    
-    const gx = new Float32Array(gxInt16);
-    const gy = new Float32Array(gyInt16);
+    // Signed Sobel gradients; sharp's convolve clamps to unsigned 8-bit and would drop the direction
+    const { gx, gy } = sobel(new Uint8Array(grayBuffer.buffer, grayBuffer.byteOffset, grayBuffer.length), downscaledInfo.width, downscaledInfo.height);
 
     // **Reduce bins for speed** 
     const numBins = orientationMethod === 'binned-8' ? (mode === 'logo' ? 4 : 6) : (mode === 'logo' ? 8 : 12);
@@ -66,6 +57,7 @@ export async function computeOrientation(
       raw: { width: downscaledInfo.width, height: downscaledInfo.height, channels: 1 } 
     })
       .resize(info.width, info.height, { kernel: 'nearest' })
+      .extractChannel(0)
       .raw()
       .toBuffer();
     
@@ -79,13 +71,124 @@ export async function computeOrientation(
       orientationField[i] = a;
     }
 
-    return { orientationField, orientationBins, method: orientationMethod };
+    return { orientationField, orientationBins, numBins, method: orientationMethod };
   } catch (error) {
     console.error('Error in orientation computation:', error);
     throw new Error(`Orientation computation failed: ${error}`);
   }
 }
 
+/**
+ * Photoreal path: smoothed structure-tensor orientation field plus a line-integral convolution of seeded noise along it
+ */
+async function computeLicOrientation(
+  quantized: { data: Buffer; info: sharp.Raw },
+  mode: 'photo' | 'logo',
+  seed: number
+): Promise<OrientationResult> {
+  const { data, info } = quantized;
+
+  const { data: grayBuf, info: fieldInfo } = await sharp(data, { raw: info })
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .greyscale()
+    .resize(LIC_FIELD_SIZE, LIC_FIELD_SIZE, { fit: 'inside', withoutEnlargement: true, kernel: 'nearest' })
+    .extractChannel(0)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const fw = fieldInfo.width, fh = fieldInfo.height;
+
+  const gray = new Float32Array(fw * fh);
+  for (let i = 0; i < gray.length; i++) gray[i] = Number(grayBuf[i] ?? 0);
+  const { gx, gy } = sobel(gaussianBlurFloat(gray, fw, fh, 0.8), fw, fh);
+
+  // Structure tensor J = G * [gx² gx·gy; gx·gy gy²]; its dominant eigenvector is the smoothed gradient direction
+  const jxx = new Float32Array(fw * fh), jxy = new Float32Array(fw * fh), jyy = new Float32Array(fw * fh);
+  for (let i = 0; i < jxx.length; i++) {
+    const x = gx[i] || 0, y = gy[i] || 0;
+    jxx[i] = x * x; jxy[i] = x * y; jyy[i] = y * y;
+  }
+  const sxx = gaussianBlurFloat(jxx, fw, fh, TENSOR_SIGMA);
+  const sxy = gaussianBlurFloat(jxy, fw, fh, TENSOR_SIGMA);
+  const syy = gaussianBlurFloat(jyy, fw, fh, TENSOR_SIGMA);
+
+  const orientationField = new Float32Array(fw * fh);
+  for (let i = 0; i < orientationField.length; i++) {
+    let a = 0.5 * Math.atan2(2 * (sxy[i] || 0), (sxx[i] || 0) - (syy[i] || 0));
+    if (a < 0) a += Math.PI;
+    if (a >= Math.PI) a -= Math.PI;
+    orientationField[i] = a;
+  }
+
+  const numBins = mode === 'logo' ? 8 : 12;
+  const binsSmall = new Uint8Array(fw * fh);
+  for (let i = 0; i < binsSmall.length; i++) binsSmall[i] = Math.min(numBins - 1, Math.floor(((orientationField[i] || 0) / Math.PI) * numBins));
+  const orientationBins = new Uint8Array(
+    await sharp(binsSmall, { raw: { width: fw, height: fh, channels: 1 } })
+      .resize(info.width, info.height, { fit: 'fill', kernel: 'nearest' })
+      .raw()
+      .toBuffer()
+  );
+
+  const lic = lineIntegralConvolution(orientationField, fw, fh, info.width, info.height, seed);
+  return { orientationField, orientationBins, numBins, method: 'lic', fieldSize: { width: fw, height: fh }, lic };
+}
+
+/**
+ * LIC: average seeded white noise along streamlines of the thread direction (perpendicular to the gradient field)
+ */
+function lineIntegralConvolution(
+  field: Float32Array,
+  fw: number,
+  fh: number,
+  width: number,
+  height: number,
+  seed: number
+): { texture: Uint8Array; width: number; height: number } {
+  const scale = Math.min(1, LIC_MAX_SIZE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale)), h = Math.max(1, Math.round(height * scale));
+  const rand = seededRandom(seed);
+  const noise = new Float32Array(w * h);
+  for (let i = 0; i < noise.length; i++) noise[i] = rand();
+
+  // Per-texel thread direction looked up from the (coarser) field
+  const tx = new Float32Array(w * h), ty = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const fy = Math.min(fh - 1, Math.floor((y * fh) / h));
+    for (let x = 0; x < w; x++) {
+      const fx = Math.min(fw - 1, Math.floor((x * fw) / w));
+      const a = (field[fy * fw + fx] || 0) + Math.PI / 2;
+      tx[y * w + x] = Math.cos(a); ty[y * w + x] = Math.sin(a);
+    }
+  }
+
+  const texture = new Uint8Array(w * h);
+  const gain = Math.sqrt(2 * LIC_LENGTH + 1);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      let sum = noise[i]!, count = 1;
+      for (let dir = 1; dir >= -1; dir -= 2) {
+        let px = x + 0.5, py = y + 0.5;
+        let vx = tx[i]! * dir, vy = ty[i]! * dir;
+        for (let step = 0; step < LIC_LENGTH; step++) {
+          px += vx; py += vy;
+          if (px < 0 || py < 0 || px >= w || py >= h) break;
+          const j = (py | 0) * w + (px | 0);
+          // Orientations are sign-ambiguous: keep following the branch closest to the previous step
+          let nx = tx[j]!, ny = ty[j]!;
+          if (nx * vx + ny * vy < 0) { nx = -nx; ny = -ny; }
+          vx = nx; vy = ny;
+          sum += noise[j]!; count++;
+        }
+      }
+      // Averaging shrinks noise variance; stretch back around mid-grey
+      const v = 128 + (sum / count - 0.5) * 127 * gain;
+      texture[i] = v < 0 ? 0 : v > 255 ? 255 : v;
+    }
+  }
+  return { texture, width: w, height: h };
+}
+
 export function createOrientationMask(orientationBins: Uint8Array, binIndex: number, width: number, height: number): Uint8Array {
   const out = new Uint8Array(width * height);
   for (let i = 0; i < out.length; i++) out[i] = (orientationBins[i] === binIndex ? 255 : 0);
@@ -0,0 +1,41 @@
+import sharp from 'sharp';
+
+export type OutputFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export const OUTPUT_MIME: Record<OutputFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+// Encoder defaults when `output.quality` is not set; AVIF reaches JPEG-85-like fidelity at a much lower setting
+const DEFAULT_QUALITY: Record<Exclude<OutputFormat, 'png'>, number> = { jpeg: 85, webp: 82, avif: 50 };
+
+export function formatFromMime(mime: string): OutputFormat | undefined {
+  const entry = Object.entries(OUTPUT_MIME).find(([, m]) => m === mime.toLowerCase() || (mime.toLowerCase() === 'image/jpg' && m === 'image/jpeg'));
+  return entry?.[0] as OutputFormat | undefined;
+}
+
+export function supportsAlpha(format: OutputFormat): boolean {
+  return format !== 'jpeg';
+}
+
+/**
+ * `auto` keeps the input's format, except that transparent results fall back to PNG when the input format has no alpha
+ */
+export function resolveOutputFormat(requested: OutputFormat | 'auto' | undefined, inputMime: string, transparent: boolean): OutputFormat {
+  if (requested && requested !== 'auto') return requested;
+  const input = formatFromMime(inputMime) ?? 'png';
+  return transparent && !supportsAlpha(input) ? 'png' : input;
+}
+
+export async function encodeOutput(image: sharp.Sharp, format: OutputFormat, quality?: number): Promise<Buffer> {
+  switch (format) {
+    case 'png': return image.png().toBuffer();
+    case 'jpeg': return image.jpeg({ quality: quality ?? DEFAULT_QUALITY.jpeg }).toBuffer();
+    case 'webp': return image.webp({ quality: quality ?? DEFAULT_QUALITY.webp }).toBuffer();
+    // Lower effort keeps AVIF encodes within the latency budget at 2000px
+    case 'avif': return image.avif({ quality: quality ?? DEFAULT_QUALITY.avif, effort: 2 }).toBuffer();
+  }
+}
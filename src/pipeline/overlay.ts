@@ -0,0 +1,129 @@
+import sharp from 'sharp';
+import { rgbToLab } from './color.ts';
+import { PROBLEM_BITS, type WarningCode } from './warnings.ts';
+
+export interface OverlayLegendEntry {
+  code: WarningCode;
+  label: string;
+  color: string;
+  // Highlighted design pixels
+  pixels: number;
+}
+
+// Drawing order: earlier layers win where problems overlap
+const OVERLAY_LAYERS: Array<{ code: keyof typeof PROBLEM_BITS; label: string; color: [number, number, number] }> = [
+  { code: 'thin_stroke', label: 'Thin strokes', color: [230, 25, 75] },
+  { code: 'narrow_gap', label: 'Narrow gaps', color: [245, 130, 48] },
+  { code: 'tiny_island', label: 'Tiny islands', color: [145, 30, 180] },
+  { code: 'small_text', label: 'Small text', color: [0, 130, 200] },
+  { code: 'dense_detail', label: 'Dense detail', color: [255, 200, 0] },
+  { code: 'palette_reduced', label: 'Merged colors', color: [60, 180, 75] }
+];
+
+// Source pixels further than this (CIE76) from their palette color count as merged into it
+const MERGED_DELTA_E = 20;
+const HIGHLIGHT_OPACITY = 0.65;
+const LEGEND_ROW = 28;
+const LEGEND_FONT = 14;
+
+/**
+ * Flag pixels whose original color was pulled far off by quantization, i.e. regions merged into another palette color
+ */
+export function markMergedColors(source: { data: Buffer; info: sharp.Raw }, quantized: { data: Buffer; info: sharp.Raw }, mask: Uint8Array) {
+  const sc = source.info.channels, qc = quantized.info.channels;
+  // Lab per 5-bit color, filled on first use
+  const labs = new Float32Array(32768 * 3);
+  const known = new Uint8Array(32768);
+  const limit = MERGED_DELTA_E * MERGED_DELTA_E;
+  const lab = (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (!known[key]) {
+      const [l, a, bb] = rgbToLab(r, g, b);
+      labs[key * 3] = l; labs[key * 3 + 1] = a; labs[key * 3 + 2] = bb;
+      known[key] = 1;
+    }
+    return key * 3;
+  };
+  for (let p = 0; p < mask.length; p++) {
+    const s = p * sc, q = p * qc;
+    if ((sc === 4 && source.data[s + 3]! < 128) || (qc === 4 && quantized.data[q + 3]! < 128)) continue;
+    const a = lab(source.data[s]!, source.data[s + 1]!, source.data[s + 2]!);
+    const b = lab(quantized.data[q]!, quantized.data[q + 1]!, quantized.data[q + 2]!);
+    const dl = labs[a]! - labs[b]!, da = labs[a + 1]! - labs[b + 1]!, db = labs[a + 2]! - labs[b + 2]!;
+    if (dl * dl + da * da + db * db > limit) mask[p]! |= PROBLEM_BITS.palette_reduced;
+  }
+}
+
+/**
+ * Review image: the source, washed out to gray, with each problem type highlighted in its own color and a legend
+ * strip underneath listing the types that occur
+ */
+export async function renderProblemOverlay(source: { data: Buffer; info: sharp.Raw }, mask: Uint8Array): Promise<{ buffer: Buffer; legend: OverlayLegendEntry[] }> {
+  const { width, height, channels } = source.info;
+  const out = Buffer.alloc(width * height * 3);
+  const counts = new Array<number>(OVERLAY_LAYERS.length).fill(0);
+  for (let p = 0; p < mask.length; p++) {
+    const s = p * channels;
+    const alpha = channels === 4 ? source.data[s + 3]! / 255 : 1;
+    const luma = 0.299 * source.data[s]! + 0.587 * source.data[s + 1]! + 0.114 * source.data[s + 2]!;
+    // Washed-out gray over white, so highlights read clearly on any artwork
+    const base = 255 - alpha * (255 - (128 + luma / 2));
+    let r = base, g = base, b = base;
+    const bits = mask[p]!;
+    if (bits) {
+      let painted = false;
+      for (let i = 0; i < OVERLAY_LAYERS.length; i++) {
+        const layer = OVERLAY_LAYERS[i]!;
+        if (!(bits & PROBLEM_BITS[layer.code])) continue;
+        counts[i]!++;
+        if (painted) continue;
+        r = base + (layer.color[0] - base) * HIGHLIGHT_OPACITY;
+        g = base + (layer.color[1] - base) * HIGHLIGHT_OPACITY;
+        b = base + (layer.color[2] - base) * HIGHLIGHT_OPACITY;
+        painted = true;
+      }
+    }
+    out[p * 3] = r;
+    out[p * 3 + 1] = g;
+    out[p * 3 + 2] = b;
+  }
+
+  const legend: OverlayLegendEntry[] = [];
+  OVERLAY_LAYERS.forEach((layer, i) => {
+    if (counts[i]) legend.push({ code: layer.code, label: layer.label, color: toHex(layer.color), pixels: counts[i]! });
+  });
+
+  const strip = legendSvg(legend, width);
+  const buffer = await sharp(out, { raw: { width, height, channels: 3 } })
+    .extend({ bottom: strip.height, background: { r: 255, g: 255, b: 255 } })
+    .composite([{ input: Buffer.from(strip.svg), top: height, left: 0 }])
+    .png()
+    .toBuffer();
+  return { buffer, legend };
+}
+
+/**
+ * Legend swatches laid out left to right, wrapping to the image width
+ */
+function legendSvg(legend: OverlayLegendEntry[], width: number): { svg: string; height: number } {
+  const items = legend.length ? legend.map(e => ({ color: e.color, text: e.label })) : [{ color: '#ffffff', text: 'No problems found' }];
+  let x = 8, row = 0;
+  const parts: string[] = [];
+  for (const item of items) {
+    const itemWidth = 26 + Math.ceil(item.text.length * LEGEND_FONT * 0.6) + 16;
+    if (x > 8 && x + itemWidth > width) { x = 8; row++; }
+    const y = row * LEGEND_ROW + 7;
+    parts.push(`<rect x="${x}" y="${y}" width="16" height="14" fill="${item.color}" stroke="#666"/>`);
+    parts.push(`<text x="${x + 22}" y="${y + 12}" font-family="sans-serif" font-size="${LEGEND_FONT}" fill="#222">${item.text}</text>`);
+    x += itemWidth;
+  }
+  const height = (row + 1) * LEGEND_ROW;
+  return {
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="${width}" height="${height}" fill="#fff"/>${parts.join('')}</svg>`,
+    height
+  };
+}
+
+function toHex([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+}
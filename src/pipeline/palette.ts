@@ -0,0 +1,50 @@
+import { rgbToLab, deltaE76Sq, hexToRgb } from './color.ts';
+import { recolorQuantized, type QuantizationResult } from './quantize.ts';
+import { findThread, matchThreads, type ThreadMatch } from '../threads/match.ts';
+import type { ThreadCatalogId } from '../threads/catalogs.ts';
+
+// One recolor rule: pick a palette entry by index or by nearest color, and give it a hex color or a catalog thread
+export interface PaletteReplacement {
+  index?: number;
+  from?: string;
+  to?: string;
+  thread?: string;
+}
+
+/**
+ * Apply `palette.replace` rules to the quantized image. Rules address the palette as reported in the response
+ * metadata and are evaluated against it all at once, so swapping two colors works. `skipped` lists the rules whose
+ * index lies beyond the palette, which can be smaller than maxColors when the image has fewer colors.
+ */
+export function applyPaletteReplacements(
+  quantized: QuantizationResult,
+  rules: PaletteReplacement[],
+  threads: ThreadMatch[] | undefined,
+  catalogId: ThreadCatalogId | undefined
+): { quantized: QuantizationResult; threads: ThreadMatch[] | undefined; skipped: number[] } {
+  const labs = quantized.palette.map(c => rgbToLab(c.r, c.g, c.b));
+  const colors: Array<{ r: number; g: number; b: number }> = quantized.palette.map(({ r, g, b }) => ({ r, g, b }));
+  const nextThreads = threads?.slice();
+  const skipped: number[] = [];
+
+  for (const [ruleIndex, rule] of rules.entries()) {
+    let index = rule.index;
+    if (index === undefined && rule.from) {
+      const { r, g, b } = hexToRgb(rule.from);
+      const lab = rgbToLab(r, g, b);
+      let bestD = Infinity;
+      labs.forEach((candidate, i) => { const d = deltaE76Sq(lab, candidate); if (d < bestD) { bestD = d; index = i; } });
+    }
+    if (index === undefined) continue;
+    if (index >= colors.length) { skipped.push(ruleIndex); continue; }
+
+    const thread = rule.thread && catalogId ? findThread(catalogId, rule.thread) : undefined;
+    const hex = thread?.hex ?? rule.to;
+    if (!hex) continue;
+    colors[index] = hexToRgb(hex);
+    if (nextThreads && catalogId) nextThreads[index] = thread ?? matchThreads([colors[index]!], catalogId)[0]!;
+  }
+
+  const recolored = recolorQuantized(quantized, colors);
+  return { quantized: recolored.quantized, threads: nextThreads && recolored.kept.map(i => nextThreads[i]!), skipped };
+}
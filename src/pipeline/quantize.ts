@@ -1,15 +1,36 @@
 import sharp from 'sharp';
+import { rgbToLab, deltaE76Sq } from './color.ts';
+import { seededRandom } from './utils.ts';
 
-interface QuantizationResult {
+export type PaletteColor = { r: number; g: number; b: number; a: number };
+
+export type QuantizeMethod = 'frequency' | 'median-cut' | 'kmeans' | 'wu';
+
+export interface QuantizeOptions {
+  method?: QuantizeMethod;
+  // Seed for k-means++ initialisation; the same seed always yields the same palette
+  seed?: number;
+  // Keep rare colors that are far (in CIELAB) from every palette entry, e.g. a small red accent on a white field (default on)
+  protectAccents?: boolean;
+  // Caller-supplied colors: 'exact' maps pixels strictly to them, 'seed' starts k-means from them
+  fixed?: { colors: PaletteColor[]; mode: 'exact' | 'seed' };
+}
+
+export interface QuantizationResult {
   data: Buffer;
   info: sharp.Raw;
-  palette: Array<{ r: number; g: number; b: number; a: number }>;
+  palette: PaletteColor[];
   paletteSize: number;
+  // Distinct colors (5-bit bins) covering at least SOURCE_COLOR_MIN_SHARE of the input before reduction
+  sourceColors: number;
 }
 
+const SOURCE_COLOR_MIN_SHARE = 0.002;
+
 export async function quantizeColors(
   normalized: { data: Buffer; info: sharp.Raw },
-  maxColors: number
+  maxColors: number,
+  options: QuantizeOptions = {}
 ): Promise<QuantizationResult> {
   try {
     const { data, info } = normalized;
@@ -25,8 +46,25 @@ export async function quantizeColors(
       .raw()
       .toBuffer({ resolveWithObject: true });
 
-    // **OPTIMIZATION 3: Fast palette extraction without encoding/decoding**
-    const usedPalette = extractPaletteFast(downscaled, dsInfo.width, dsInfo.height, maxColors);
+    // **OPTIMIZATION 3: Palette extraction without encoding/decoding**
+    const method = options.method ?? 'kmeans';
+    let usedPalette: PaletteColor[];
+    if (options.fixed?.mode === 'exact') {
+      usedPalette = options.fixed.colors.slice();
+    } else if (options.fixed?.mode === 'seed') {
+      const histogram = buildHistogram(downscaled);
+      usedPalette = kmeansPalette(histogram, Math.max(maxColors, options.fixed.colors.length), options.seed ?? 1, options.fixed.colors);
+      if (options.protectAccents !== false) usedPalette = protectAccentColors(histogram, usedPalette, maxColors);
+    } else if (method === 'frequency') {
+      usedPalette = extractPaletteFast(downscaled, dsInfo.width, dsInfo.height, maxColors);
+    } else {
+      const histogram = buildHistogram(downscaled);
+      usedPalette = method === 'median-cut' ? medianCutPalette(histogram, maxColors)
+        : method === 'kmeans' ? kmeansPalette(histogram, maxColors, options.seed ?? 1)
+        : wuPalette(downscaled, maxColors);
+      if (options.protectAccents !== false) usedPalette = protectAccentColors(histogram, usedPalette, maxColors);
+    }
+    if (usedPalette.length === 0) usedPalette = [{ r: 0, g: 0, b: 0, a: 255 }];
     
     // **OPTIMIZATION 4: Apply palette to full resolution using simple mapping**
     const quantizedFull = await applyPaletteToImage(data, info, usedPalette);
@@ -35,7 +73,8 @@ export async function quantizeColors(
       data: quantizedFull,
       info: { ...info, channels: 4 } as sharp.Raw, // Ensure RGBA
       palette: usedPalette,
-      paletteSize: usedPalette.length
+      paletteSize: usedPalette.length,
+      sourceColors: countSourceColors(downscaled)
     };
   } catch (error) {
     console.error('Error in color quantization:', error);
@@ -48,9 +87,9 @@ function extractPaletteFromImage(
   width: number,
   height: number,
   k: number
-): Array<{ r: number; g: number; b: number; a: number }> {
+): PaletteColor[] {
   const seen = new Set<string>();
-  const palette: Array<{ r: number; g: number; b: number; a: number }> = [];
+  const palette: PaletteColor[] = [];
   for (let i = 0; i < rgba.length && palette.length < k; i += 4) {
     const r = Number(rgba[i]);
     const g = Number(rgba[i + 1]);
@@ -70,7 +109,7 @@ function extractPaletteFast(
   width: number,
   height: number,
   maxColors: number
-): Array<{ r: number; g: number; b: number; a: number }> {
+): PaletteColor[] {
   const colorFreq = new Map<string, { color: { r: number; g: number; b: number; a: number }, count: number }>();
   
   // **Sample every 4th pixel for speed**
@@ -81,10 +120,10 @@ function extractPaletteFast(
     const b = rgba[i + 2] || 0;
     const a = rgba[i + 3] || 255;
     
-    // **Round colors to reduce palette diversity**
-    const roundedR = Math.round(r / 16) * 16;
-    const roundedG = Math.round(g / 16) * 16;
-    const roundedB = Math.round(b / 16) * 16;
+    // **Round colors to reduce palette diversity** (clamped: 248 and up would round to 256 and wrap to black)
+    const roundedR = Math.min(255, Math.round(r / 16) * 16);
+    const roundedG = Math.min(255, Math.round(g / 16) * 16);
+    const roundedB = Math.min(255, Math.round(b / 16) * 16);
     
     const key = `${roundedR},${roundedG},${roundedB},${a}`;
     if (colorFreq.has(key)) {
@@ -102,56 +141,397 @@ function extractPaletteFast(
 }
 
 /**
- * **Apply palette to full resolution image using nearest color matching**
+ * Color histogram over opaque sample pixels, bucketed at 5 bits per channel. Each bucket keeps the mean color of its members.
+ */
+interface HistogramEntry { r: number; g: number; b: number; lab: [number, number, number]; count: number }
+
+function countSourceColors(rgba: Buffer): number {
+  const counts = new Uint32Array(32768);
+  let opaque = 0;
+  for (let i = 0; i < rgba.length; i += 4) {
+    if ((rgba[i + 3] ?? 0) < 128) continue;
+    counts[((rgba[i]! >> 3) << 10) | ((rgba[i + 1]! >> 3) << 5) | (rgba[i + 2]! >> 3)]!++;
+    opaque++;
+  }
+  const min = Math.max(1, opaque * SOURCE_COLOR_MIN_SHARE);
+  let colors = 0;
+  for (let key = 0; key < counts.length; key++) if (counts[key]! >= min) colors++;
+  return colors;
+}
+
+function buildHistogram(rgba: Buffer): HistogramEntry[] {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  for (let i = 0; i < rgba.length; i += 4) {
+    if ((rgba[i + 3] ?? 0) < 128) continue;
+    const r = rgba[i]!, g = rgba[i + 1]!, b = rgba[i + 2]!;
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    counts[key]!++;
+    sums[key * 3]! += r; sums[key * 3 + 1]! += g; sums[key * 3 + 2]! += b;
+  }
+  const entries: HistogramEntry[] = [];
+  for (let key = 0; key < counts.length; key++) {
+    const count = counts[key]!;
+    if (!count) continue;
+    const r = sums[key * 3]! / count, g = sums[key * 3 + 1]! / count, b = sums[key * 3 + 2]! / count;
+    entries.push({ r, g, b, lab: rgbToLab(r, g, b), count });
+  }
+  return entries;
+}
+
+function toPaletteColor(r: number, g: number, b: number): PaletteColor {
+  return { r: Math.round(r), g: Math.round(g), b: Math.round(b), a: 255 };
+}
+
+/**
+ * Heckbert median cut: repeatedly split the box with the widest channel range at its population median
+ */
+function medianCutPalette(histogram: HistogramEntry[], maxColors: number): PaletteColor[] {
+  const channels = ['r', 'g', 'b'] as const;
+  const range = (box: HistogramEntry[], c: typeof channels[number]) => {
+    let lo = 255, hi = 0;
+    for (const e of box) { if (e[c] < lo) lo = e[c]; if (e[c] > hi) hi = e[c]; }
+    return hi - lo;
+  };
+  const boxes: HistogramEntry[][] = histogram.length ? [histogram.slice()] : [];
+  while (boxes.length < maxColors) {
+    let best = -1, bestChannel: typeof channels[number] = 'r', bestRange = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (const c of channels) {
+        const r = range(box, c);
+        if (r > bestRange) { bestRange = r; best = i; bestChannel = c; }
+      }
+    });
+    if (best < 0) break;
+    const box = boxes[best]!.sort((a, b) => a[bestChannel] - b[bestChannel]);
+    const total = box.reduce((sum, e) => sum + e.count, 0);
+    let acc = 0, split = 1;
+    for (let i = 0; i < box.length - 1; i++) {
+      acc += box[i]!.count;
+      if (acc >= total / 2) { split = i + 1; break; }
+    }
+    boxes.splice(best, 1, box.slice(0, split), box.slice(split));
+  }
+  return boxes.map(box => {
+    let r = 0, g = 0, b = 0, n = 0;
+    for (const e of box) { r += e.r * e.count; g += e.g * e.count; b += e.b * e.count; n += e.count; }
+    return toPaletteColor(r / n, g / n, b / n);
+  });
+}
+
+/**
+ * Weighted k-means in CIELAB with k-means++ seeding; deterministic for a given seed.
+ * `initial` colors become the first centers and k-means++ picks the rest.
+ */
+function kmeansPalette(histogram: HistogramEntry[], maxColors: number, seed: number, initial: PaletteColor[] = []): PaletteColor[] {
+  const k = Math.min(maxColors, Math.max(histogram.length, initial.length));
+  if (k === 0 || histogram.length === 0) return [];
+  const rand = seededRandom(seed);
+  const total = histogram.reduce((sum, e) => sum + e.count, 0);
+
+  const pickWeighted = (weights: Float64Array, sum: number) => {
+    let target = rand() * sum;
+    for (let i = 0; i < weights.length; i++) {
+      target -= weights[i]!;
+      if (target <= 0) return i;
+    }
+    return weights.length - 1;
+  };
+
+  const centers: number[][] = initial.slice(0, k).map(c => rgbToLab(c.r, c.g, c.b));
+  const nearest = new Float64Array(histogram.length).fill(Infinity);
+  const weights = new Float64Array(histogram.length);
+  histogram.forEach((e, i) => { weights[i] = e.count; });
+  if (centers.length === 0) centers.push([...histogram[pickWeighted(weights, total)]!.lab]);
+  let applied = 0;
+  while (centers.length < k) {
+    let sum = 0;
+    histogram.forEach((e, i) => {
+      for (let c = applied; c < centers.length; c++) nearest[i] = Math.min(nearest[i]!, deltaE76Sq(e.lab, centers[c]!));
+      weights[i] = e.count * nearest[i]!;
+      sum += weights[i]!;
+    });
+    applied = centers.length;
+    if (sum === 0) break;
+    centers.push([...histogram[pickWeighted(weights, sum)]!.lab]);
+  }
+
+  const assignment = new Int32Array(histogram.length);
+  for (let iter = 0; iter < 16; iter++) {
+    histogram.forEach((e, i) => {
+      let best = 0, bestD = Infinity;
+      centers.forEach((c, j) => { const d = deltaE76Sq(e.lab, c); if (d < bestD) { bestD = d; best = j; } });
+      assignment[i] = best;
+    });
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    histogram.forEach((e, i) => {
+      const s = sums[assignment[i]!]!;
+      s[0]! += e.lab[0] * e.count; s[1]! += e.lab[1] * e.count; s[2]! += e.lab[2] * e.count; s[3]! += e.count;
+    });
+    let moved = 0;
+    centers.forEach((c, j) => {
+      const s = sums[j]!;
+      if (!s[3]) return;
+      const next = [s[0]! / s[3], s[1]! / s[3], s[2]! / s[3]];
+      moved = Math.max(moved, deltaE76Sq(c, next));
+      centers[j] = next;
+    });
+    if (moved < 0.25) break;
+  }
+
+  // Report each cluster as the mean sRGB of its members so palette entries stay in gamut
+  const rgb = centers.map(() => [0, 0, 0, 0]);
+  histogram.forEach((e, i) => {
+    const s = rgb[assignment[i]!]!;
+    s[0]! += e.r * e.count; s[1]! += e.g * e.count; s[2]! += e.b * e.count; s[3]! += e.count;
+  });
+  return rgb.filter(s => s[3]! > 0).map(s => toPaletteColor(s[0]! / s[3]!, s[1]! / s[3]!, s[2]! / s[3]!));
+}
+
+/**
+ * Wu's greedy orthogonal bipartition (Graphics Gems II): splits boxes of a 33³ moment table to minimise variance
+ */
+function wuPalette(rgba: Buffer, maxColors: number): PaletteColor[] {
+  const SIDE = 33, PLANE = SIDE * SIDE, SIZE = SIDE * PLANE;
+  const wt = new Float64Array(SIZE), mr = new Float64Array(SIZE), mg = new Float64Array(SIZE), mb = new Float64Array(SIZE), m2 = new Float64Array(SIZE);
+  const idx = (r: number, g: number, b: number) => r * PLANE + g * SIDE + b;
+
+  for (let i = 0; i < rgba.length; i += 4) {
+    if ((rgba[i + 3] ?? 0) < 128) continue;
+    const r = rgba[i]!, g = rgba[i + 1]!, b = rgba[i + 2]!;
+    const j = idx((r >> 3) + 1, (g >> 3) + 1, (b >> 3) + 1);
+    wt[j]!++; mr[j]! += r; mg[j]! += g; mb[j]! += b; m2[j]! += r * r + g * g + b * b;
+  }
+
+  // Convert to cumulative moments so any box sum is eight lookups
+  const moments = [wt, mr, mg, mb, m2];
+  for (const m of moments) {
+    for (let r = 1; r < SIDE; r++) {
+      const area = new Float64Array(SIDE);
+      for (let g = 1; g < SIDE; g++) {
+        let line = 0;
+        for (let b = 1; b < SIDE; b++) {
+          const j = idx(r, g, b);
+          line += m[j]!;
+          area[b]! += line;
+          m[j] = m[j - PLANE]! + area[b]!;
+        }
+      }
+    }
+  }
+
+  type Box = { r0: number; r1: number; g0: number; g1: number; b0: number; b1: number; vol: number };
+  type Dir = 'r' | 'g' | 'b';
+  const volume = (c: Box, m: Float64Array) =>
+    m[idx(c.r1, c.g1, c.b1)]! - m[idx(c.r1, c.g1, c.b0)]! - m[idx(c.r1, c.g0, c.b1)]! + m[idx(c.r1, c.g0, c.b0)]!
+    - m[idx(c.r0, c.g1, c.b1)]! + m[idx(c.r0, c.g1, c.b0)]! + m[idx(c.r0, c.g0, c.b1)]! - m[idx(c.r0, c.g0, c.b0)]!;
+  const bottom = (c: Box, dir: Dir, m: Float64Array) => {
+    switch (dir) {
+      case 'r': return -m[idx(c.r0, c.g1, c.b1)]! + m[idx(c.r0, c.g1, c.b0)]! + m[idx(c.r0, c.g0, c.b1)]! - m[idx(c.r0, c.g0, c.b0)]!;
+      case 'g': return -m[idx(c.r1, c.g0, c.b1)]! + m[idx(c.r1, c.g0, c.b0)]! + m[idx(c.r0, c.g0, c.b1)]! - m[idx(c.r0, c.g0, c.b0)]!;
+      case 'b': return -m[idx(c.r1, c.g1, c.b0)]! + m[idx(c.r1, c.g0, c.b0)]! + m[idx(c.r0, c.g1, c.b0)]! - m[idx(c.r0, c.g0, c.b0)]!;
+    }
+  };
+  const top = (c: Box, dir: Dir, pos: number, m: Float64Array) => {
+    switch (dir) {
+      case 'r': return m[idx(pos, c.g1, c.b1)]! - m[idx(pos, c.g1, c.b0)]! - m[idx(pos, c.g0, c.b1)]! + m[idx(pos, c.g0, c.b0)]!;
+      case 'g': return m[idx(c.r1, pos, c.b1)]! - m[idx(c.r1, pos, c.b0)]! - m[idx(c.r0, pos, c.b1)]! + m[idx(c.r0, pos, c.b0)]!;
+      case 'b': return m[idx(c.r1, c.g1, pos)]! - m[idx(c.r1, c.g0, pos)]! - m[idx(c.r0, c.g1, pos)]! + m[idx(c.r0, c.g0, pos)]!;
+    }
+  };
+  const variance = (c: Box) => {
+    const dr = volume(c, mr), dg = volume(c, mg), db = volume(c, mb), w = volume(c, wt);
+    return w ? volume(c, m2) - (dr * dr + dg * dg + db * db) / w : 0;
+  };
+  const maximize = (c: Box, dir: Dir, first: number, last: number, whole: number[]) => {
+    const base = [bottom(c, dir, mr), bottom(c, dir, mg), bottom(c, dir, mb), bottom(c, dir, wt)];
+    let max = 0, cut = -1;
+    for (let i = first; i < last; i++) {
+      const hr = base[0]! + top(c, dir, i, mr), hg = base[1]! + top(c, dir, i, mg), hb = base[2]! + top(c, dir, i, mb), hw = base[3]! + top(c, dir, i, wt);
+      if (hw === 0) continue;
+      const or = whole[0]! - hr, og = whole[1]! - hg, ob = whole[2]! - hb, ow = whole[3]! - hw;
+      if (ow === 0) continue;
+      const score = (hr * hr + hg * hg + hb * hb) / hw + (or * or + og * og + ob * ob) / ow;
+      if (score > max) { max = score; cut = i; }
+    }
+    return { max, cut };
+  };
+  const split = (a: Box, b: Box): boolean => {
+    const whole = [volume(a, mr), volume(a, mg), volume(a, mb), volume(a, wt)];
+    const cr = maximize(a, 'r', a.r0 + 1, a.r1, whole);
+    const cg = maximize(a, 'g', a.g0 + 1, a.g1, whole);
+    const cb = maximize(a, 'b', a.b0 + 1, a.b1, whole);
+    let dir: Dir;
+    if (cr.max >= cg.max && cr.max >= cb.max) { dir = 'r'; if (cr.cut < 0) return false; }
+    else if (cg.max >= cr.max && cg.max >= cb.max) dir = 'g';
+    else dir = 'b';
+    b.r1 = a.r1; b.g1 = a.g1; b.b1 = a.b1;
+    if (dir === 'r') { b.r0 = a.r1 = cr.cut; b.g0 = a.g0; b.b0 = a.b0; }
+    else if (dir === 'g') { b.g0 = a.g1 = cg.cut; b.r0 = a.r0; b.b0 = a.b0; }
+    else { b.b0 = a.b1 = cb.cut; b.r0 = a.r0; b.g0 = a.g0; }
+    a.vol = (a.r1 - a.r0) * (a.g1 - a.g0) * (a.b1 - a.b0);
+    b.vol = (b.r1 - b.r0) * (b.g1 - b.g0) * (b.b1 - b.b0);
+    return true;
+  };
+
+  const boxes: Box[] = [{ r0: 0, r1: 32, g0: 0, g1: 32, b0: 0, b1: 32, vol: 0 }];
+  const vv: number[] = [0];
+  let next = 0;
+  for (let i = 1; i < maxColors; i++) {
+    const box: Box = { r0: 0, r1: 0, g0: 0, g1: 0, b0: 0, b1: 0, vol: 0 };
+    if (split(boxes[next]!, box)) {
+      boxes.push(box);
+      vv[next] = boxes[next]!.vol > 1 ? variance(boxes[next]!) : 0;
+      vv[i] = box.vol > 1 ? variance(box) : 0;
+    } else {
+      vv[next] = 0;
+      i--;
+    }
+    next = 0;
+    let best = vv[0]!;
+    for (let k = 1; k <= i; k++) if (vv[k]! > best) { best = vv[k]!; next = k; }
+    if (best <= 0) break;
+  }
+
+  const palette: PaletteColor[] = [];
+  for (const box of boxes) {
+    const w = volume(box, wt);
+    if (w > 0) palette.push(toPaletteColor(volume(box, mr) / w, volume(box, mg) / w, volume(box, mb) / w));
+  }
+  return palette;
+}
+
+const ACCENT_MIN_DELTA_E = 20;
+const ACCENT_MIN_SHARE = 0.0001;
+
+/**
+ * Re-admit rare colors the quantizer averaged away. Each pass takes the histogram bucket farthest from the palette;
+ * if the palette is full, the least-populated member of the closest palette pair gives up its slot.
+ */
+function protectAccentColors(histogram: HistogramEntry[], palette: PaletteColor[], maxColors: number): PaletteColor[] {
+  const total = histogram.reduce((sum, e) => sum + e.count, 0);
+  const minCount = Math.max(2, total * ACCENT_MIN_SHARE);
+  const result = palette.slice();
+  const labs = result.map(c => rgbToLab(c.r, c.g, c.b));
+  const maxAccents = Math.max(1, Math.floor(maxColors / 4));
+
+  for (let added = 0; added < maxAccents; added++) {
+    // Coverage per palette entry and the worst-served bucket
+    const coverage = new Array(result.length).fill(0);
+    let worst: HistogramEntry | null = null, worstD = ACCENT_MIN_DELTA_E * ACCENT_MIN_DELTA_E;
+    for (const e of histogram) {
+      let best = 0, bestD = Infinity;
+      labs.forEach((lab, j) => { const d = deltaE76Sq(e.lab, lab); if (d < bestD) { bestD = d; best = j; } });
+      coverage[best] += e.count;
+      if (e.count >= minCount && bestD > worstD) { worstD = bestD; worst = e; }
+    }
+    if (!worst) break;
+
+    if (result.length >= maxColors) {
+      let pair: [number, number] = [0, 1], pairD = Infinity;
+      for (let i = 0; i < labs.length; i++) {
+        for (let j = i + 1; j < labs.length; j++) {
+          const d = deltaE76Sq(labs[i]!, labs[j]!);
+          if (d < pairD) { pairD = d; pair = [i, j]; }
+        }
+      }
+      // Never trade away a color that is more distinct than the accent we are adding
+      if (pairD >= worstD) break;
+      const drop = coverage[pair[0]] <= coverage[pair[1]] ? pair[0] : pair[1];
+      result.splice(drop, 1);
+      labs.splice(drop, 1);
+    }
+    result.push(toPaletteColor(worst.r, worst.g, worst.b));
+    labs.push(worst.lab);
+  }
+  return result;
+}
+
+/**
+ * **Apply palette to full resolution image using nearest color matching in CIELAB**
  */
 async function applyPaletteToImage(
   data: Buffer,
   info: sharp.Raw,
-  palette: Array<{ r: number; g: number; b: number; a: number }>
+  palette: PaletteColor[]
 ): Promise<Buffer> {
   // **Ensure input is RGBA**
   const { data: rgbaData } = await sharp(data, { raw: info })
     .ensureAlpha()
     .raw()
     .toBuffer({ resolveWithObject: true });
-  
+
   const quantized = Buffer.alloc(rgbaData.length);
-  
-  // **Fast nearest color matching**
+  const labs = palette.map(c => rgbToLab(c.r, c.g, c.b));
+
+  // **Memoise matches on a 6-bit-per-channel grid so each distinct color is converted to Lab once**
+  const lookup = new Int16Array(1 << 18).fill(-1);
+
   for (let i = 0; i < rgbaData.length; i += 4) {
-    const r = rgbaData[i];
-    const g = rgbaData[i + 1];
-    const b = rgbaData[i + 2];
-    const a = rgbaData[i + 3];
-    
-    let closestColor = palette[0];
-    let minDistance = Infinity;
-    
-    for (const color of palette) {
-      // **Fast Euclidean distance in RGB space**
-      const dr = r - color.r;
-      const dg = g - color.g;
-      const db = b - color.b;
-      const distance = dr * dr + dg * dg + db * db;
-      
-      if (distance < minDistance) {
-        minDistance = distance;
-        closestColor = color;
+    const r = rgbaData[i]!;
+    const g = rgbaData[i + 1]!;
+    const b = rgbaData[i + 2]!;
+    const key = ((r >> 2) << 12) | ((g >> 2) << 6) | (b >> 2);
+
+    let match = lookup[key]!;
+    if (match < 0) {
+      const lab = rgbToLab((r & 0xfc) + 2, (g & 0xfc) + 2, (b & 0xfc) + 2);
+      let minDistance = Infinity;
+      match = 0;
+      for (let j = 0; j < labs.length; j++) {
+        const distance = deltaE76Sq(lab, labs[j]!);
+        if (distance < minDistance) {
+          minDistance = distance;
+          match = j;
+        }
       }
+      lookup[key] = match;
     }
-    
+
+    const closestColor = palette[match]!;
     quantized[i] = closestColor.r;
     quantized[i + 1] = closestColor.g;
     quantized[i + 2] = closestColor.b;
-    quantized[i + 3] = a; // Preserve original alpha
+    quantized[i + 3] = rgbaData[i + 3]!; // Preserve original alpha
   }
-  
+
   return quantized;
 }
 
+/**
+ * Swap palette entries for new colors (one per palette index) and repaint the quantized pixels.
+ * Entries that end up identical are merged; `kept` lists the original index behind each surviving entry.
+ */
+export function recolorQuantized(quantized: QuantizationResult, colors: Array<{ r: number; g: number; b: number }>): { quantized: QuantizationResult; kept: number[] } {
+  const remap = new Map<number, { r: number; g: number; b: number }>();
+  const palette: PaletteColor[] = [];
+  const kept: number[] = [];
+  const seen = new Set<number>();
+
+  quantized.palette.forEach((color, i) => {
+    const next = colors[i] ?? color;
+    remap.set((color.r << 16) | (color.g << 8) | color.b, next);
+    const key = (next.r << 16) | (next.g << 8) | next.b;
+    if (seen.has(key)) return;
+    seen.add(key);
+    palette.push({ r: next.r, g: next.g, b: next.b, a: color.a });
+    kept.push(i);
+  });
+
+  const data = Buffer.from(quantized.data);
+  for (let i = 0; i < data.length; i += 4) {
+    const rgb = remap.get((data[i]! << 16) | (data[i + 1]! << 8) | data[i + 2]!);
+    if (!rgb) continue;
+    data[i] = rgb.r; data[i + 1] = rgb.g; data[i + 2] = rgb.b;
+  }
+
+  return { quantized: { ...quantized, data, palette, paletteSize: palette.length }, kept };
+}
+
 export async function quantizeColorsMedianCut(
   normalized: { data: Buffer; info: sharp.Raw },
   maxColors: number
 ): Promise<QuantizationResult> {
-  return await quantizeColors(normalized, maxColors);
+  return await quantizeColors(normalized, maxColors, { method: 'median-cut' });
 }
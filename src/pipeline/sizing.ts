@@ -0,0 +1,77 @@
+import { DEFAULT_PIXELS_PER_MM } from './stitches.ts';
+import type { DesignWarning } from './warnings.ts';
+
+export interface DesignSize {
+  widthMm?: number;
+  heightMm?: number;
+  dpi?: number;
+}
+
+export interface PhysicalSize {
+  widthMm: number;
+  heightMm: number;
+  dpi: number;
+  pixelsPerMm: number;
+}
+
+// Analysis/render resolution cap, whatever the requested physical size
+export const MAX_DESIGN_PX = 2000;
+export const MM_PER_INCH = 25.4;
+// 10 px/mm, the scale stitch plans have always assumed
+export const DEFAULT_DPI = DEFAULT_PIXELS_PER_MM * MM_PER_INCH;
+// Visible width of a standard 40wt polyester thread
+export const THREAD_WIDTH_MM = 0.4;
+const MAX_THREAD_PX = 10;
+
+/**
+ * Pixel size the input is normalized to, and the physical scale that goes with it. Without `size` the image is only
+ * capped at MAX_DESIGN_PX and assumed to be at DEFAULT_DPI. With `size` the design is scaled (up or down) to the
+ * requested millimetres at `dpi`; when that exceeds the pixel cap the DPI is lowered instead and a warning is returned.
+ */
+export function planDesignSize(sourceWidth: number, sourceHeight: number, size?: DesignSize): { width: number; height: number; physical: PhysicalSize; warnings: DesignWarning[] } {
+  const warnings: DesignWarning[] = [];
+  if (!size || (size.widthMm === undefined && size.heightMm === undefined && size.dpi === undefined)) {
+    const scale = Math.min(1, MAX_DESIGN_PX / Math.max(sourceWidth, sourceHeight));
+    const width = Math.max(1, Math.round(sourceWidth * scale)), height = Math.max(1, Math.round(sourceHeight * scale));
+    return { width, height, physical: physicalSize(width, height, DEFAULT_PIXELS_PER_MM), warnings };
+  }
+
+  const requestedDpi = size.dpi ?? DEFAULT_DPI;
+  // Fit inside the requested box; a single dimension keeps the source aspect ratio
+  const mmPerSourcePx = Math.min(
+    size.widthMm !== undefined ? size.widthMm / sourceWidth : Infinity,
+    size.heightMm !== undefined ? size.heightMm / sourceHeight : Infinity
+  );
+  // dpi alone keeps the source pixels and only declares their physical scale
+  let pixelsPerMm = requestedDpi / MM_PER_INCH;
+  let scale = Number.isFinite(mmPerSourcePx) ? mmPerSourcePx * pixelsPerMm : 1;
+  const longest = Math.max(sourceWidth, sourceHeight) * scale;
+  if (longest > MAX_DESIGN_PX) {
+    const reduce = MAX_DESIGN_PX / longest;
+    scale *= reduce;
+    pixelsPerMm *= reduce;
+    warnings.push({
+      code: 'dpi_reduced',
+      severity: 'info',
+      message: `Requested ${Math.round(requestedDpi)} dpi exceeds the ${MAX_DESIGN_PX}px render limit; rendered at ${Math.round(pixelsPerMm * MM_PER_INCH)} dpi`
+    });
+  }
+  const width = Math.max(1, Math.round(sourceWidth * scale)), height = Math.max(1, Math.round(sourceHeight * scale));
+  return { width, height, physical: physicalSize(width, height, pixelsPerMm), warnings };
+}
+
+/**
+ * Thread width in pixels at a physical scale, within the range textures and edge stitching support
+ */
+export function threadPixels(pixelsPerMm: number): number {
+  return Math.max(1, Math.min(MAX_THREAD_PX, Math.round(THREAD_WIDTH_MM * pixelsPerMm)));
+}
+
+function physicalSize(width: number, height: number, pixelsPerMm: number): PhysicalSize {
+  return {
+    widthMm: Math.round((width / pixelsPerMm) * 10) / 10,
+    heightMm: Math.round((height / pixelsPerMm) * 10) / 10,
+    dpi: Math.round(pixelsPerMm * MM_PER_INCH),
+    pixelsPerMm: Math.round(pixelsPerMm * 1000) / 1000
+  };
+}
@@ -0,0 +1,66 @@
+import { createHash } from 'node:crypto';
+
+// Kept free of image-processing imports so the server can read the stage list without loading the pipeline
+
+// Render stages in pipeline order, as reported to a StageListener
+export const EMBROIDERY_STAGES = ['normalize', 'quantize', 'edges', 'textures', 'composite', 'background', 'encode'] as const;
+export type EmbroideryStage = typeof EMBROIDERY_STAGES[number];
+export type StageListener = (stage: EmbroideryStage, ms: number) => void;
+
+const STAGE_TIMINGS: Record<string, EmbroideryStage> = {
+  normalizeMs: 'normalize',
+  quantizeMs: 'quantize',
+  edgesOrientationParallelMs: 'edges',
+  texturesMs: 'textures',
+  compositeMs: 'composite',
+  backgroundMs: 'background',
+  mockupMs: 'background',
+  encodeMs: 'encode'
+};
+
+/**
+ * Timings record that reports each render stage to `onStage` as soon as its duration is recorded
+ */
+export function stageTimings(onStage?: StageListener): Record<string, number> {
+  const timings: Record<string, number> = {};
+  if (!onStage) return timings;
+  return new Proxy(timings, {
+    set(target, key, value) {
+      target[key as string] = value;
+      const stage = typeof key === 'string' ? STAGE_TIMINGS[key] : undefined;
+      if (stage) onStage(stage, value);
+      return true;
+    }
+  });
+}
+
+/**
+ * Stage outputs kept across requests, by stage key. Values are plain data (buffers, typed arrays, objects), so they
+ * can be serialized and handed to other threads.
+ */
+export interface StageCache {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown): void;
+}
+
+// Bump whenever a stage's output changes shape or content for the same inputs
+const STAGE_VERSION = 1;
+
+/**
+ * Cache key of a stage run: a hash of the stage name and its inputs (options and upstream stage keys)
+ */
+export function stageKey(stage: string, inputs: unknown[]): string {
+  return createHash('sha256').update(`${STAGE_VERSION}\n${stage}\n${canonicalJson(inputs)}`).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted and undefined members dropped, so equal values always serialize the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,445 @@
+import sharp from 'sharp';
+import { getBinAngle } from './orientation.ts';
+
+export type StitchCommand = 'stitch' | 'jump' | 'color' | 'end';
+
+// Coordinates are in machine units (0.1mm), +y pointing down, origin at the design center
+export interface Stitch { x: number; y: number; command: StitchCommand }
+
+export interface StitchPlan {
+  stitches: Stitch[];
+  threads: Array<{ r: number; g: number; b: number }>;
+  extents: { minX: number; minY: number; maxX: number; maxY: number };
+  stitchCount: number;
+  colorChanges: number;
+}
+
+export type BorderStyle = 'auto' | 'running' | 'satin' | 'bean' | 'merrow';
+
+export interface StitchPlanOptions {
+  pixelsPerMm: number;
+  densityScale?: number;
+  borderStitch?: boolean;
+  borderWidth?: number;
+  borderStyle?: BorderStyle;
+  // Outline thread; defaults to the darkest palette color
+  borderColor?: { r: number; g: number; b: number };
+}
+
+export const DEFAULT_PIXELS_PER_MM = 10;
+
+// Production defaults (mm) for fills and outlines
+export const FILL_ROW_SPACING_MM = 0.4;
+export const FILL_MAX_STITCH_MM = 3.5;
+export const RUN_STITCH_MM = 2.5;
+export const SATIN_SPACING_MM = 0.4;
+export const SATIN_MIN_WIDTH_MM = 1;
+// Merrow (overlock) wraps sit tighter than satin and lean along the edge by this fraction of the column width
+export const MERROW_SPACING_MM = 0.3;
+const MERROW_SLANT = 0.35;
+export const JUMP_THRESHOLD_MM = 2;
+export const MIN_REGION_MM2 = 1;
+
+export type Point = { x: number; y: number };
+export type Segment = { points: Point[] };
+type BBox = { minX: number; minY: number; maxX: number; maxY: number };
+
+export function planStitches(
+  quantized: { data: Buffer; info: sharp.Raw; palette: Array<{ r: number; g: number; b: number; a: number }> },
+  orientation: { orientationBins: Uint8Array; numBins: number },
+  edges: { edgeMap: Uint8Array; rimBand: Uint8Array },
+  options: StitchPlanOptions
+): StitchPlan {
+  const { data, info, palette } = quantized;
+  const { width, height } = info;
+  const ppm = options.pixelsPerMm;
+  const density = Math.max(0.5, Math.min(2, options.densityScale ?? 1));
+
+  // Label every opaque pixel with its palette index (255 = transparent / unmatched)
+  const labels = labelPalette(data, width, height, info.channels, palette);
+
+  const blocks: Array<{ color: { r: number; g: number; b: number }; segments: Segment[] }> = [];
+  const minArea = MIN_REGION_MM2 * ppm * ppm;
+
+  const regions = regionStats(labels, width, palette.length, orientation, edges.edgeMap);
+  for (let index = 0; index < palette.length; index++) {
+    const color = palette[index]!;
+    const region = regions[index]!;
+    if (region.area < minArea) continue;
+
+    // Stitches run along the contour flow, i.e. perpendicular to the dominant gradient bin
+    const angle = region.angle + Math.PI / 2;
+    const segments = fillRegion(labels, index, width, height, region.bbox, angle, {
+      rowSpacing: Math.max(1, (FILL_ROW_SPACING_MM * ppm) / density),
+      maxStitch: FILL_MAX_STITCH_MM * ppm
+    });
+    if (segments.length) blocks.push({ color: { r: color.r, g: color.g, b: color.b }, segments });
+  }
+
+  if (options.borderStitch !== false && palette.length) {
+    const borderWidth = Math.max(1, options.borderWidth ?? 3);
+    const style = resolveBorderStyle(options.borderStyle, borderWidth, ppm);
+    const segments = traceRim(labels, edges.rimBand, width, height, Math.max(4, Math.round(ppm * 2)))
+      .map(points => borderStitches(points, style, borderWidth, ppm));
+    const color = options.borderColor ?? borderColor(palette);
+    if (segments.length) blocks.push({ color: { r: color.r, g: color.g, b: color.b }, segments });
+  }
+
+  return sequenceBlocks(blocks, width, height, ppm);
+}
+
+/**
+ * `auto` is a satin column when the rim is at least SATIN_MIN_WIDTH_MM wide, otherwise a running stitch
+ */
+export function resolveBorderStyle(style: BorderStyle | undefined, borderWidth: number, ppm: number): Exclude<BorderStyle, 'auto'> {
+  if (style && style !== 'auto') return style;
+  return borderWidth >= SATIN_MIN_WIDTH_MM * ppm ? 'satin' : 'running';
+}
+
+// Automatic outline thread: the darkest palette color
+export function borderColor(palette: Array<{ r: number; g: number; b: number }>): { r: number; g: number; b: number } {
+  return palette.reduce((a, b) => (luma(b) < luma(a) ? b : a));
+}
+
+/**
+ * Needle path of one rim contour in the given style, in pixels. Columns (satin, merrow) alternate between the two
+ * sides of the outline, so every other stitch crosses the contour on top of the fabric.
+ */
+export function borderStitches(points: Point[], style: Exclude<BorderStyle, 'auto'>, borderWidth: number, ppm: number): Segment {
+  switch (style) {
+    case 'running': return runningStitch(points, RUN_STITCH_MM * ppm);
+    case 'bean': return beanStitch(points, RUN_STITCH_MM * ppm);
+    case 'satin': return satinColumn(points, borderWidth, SATIN_SPACING_MM * ppm);
+    case 'merrow': return satinColumn(points, borderWidth, MERROW_SPACING_MM * ppm, MERROW_SLANT);
+  }
+}
+
+export function luma(c: { r: number; g: number; b: number }) {
+  return 0.2126 * c.r + 0.7152 * c.g + 0.0722 * c.b;
+}
+
+export function labelPalette(
+  data: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  palette: Array<{ r: number; g: number; b: number; a: number }>
+): Uint8Array {
+  const lookup = new Map<number, number>();
+  palette.forEach((c, i) => { if (!lookup.has((c.r << 16) | (c.g << 8) | c.b)) lookup.set((c.r << 16) | (c.g << 8) | c.b, i); });
+  const labels = new Uint8Array(width * height).fill(255);
+  for (let p = 0, i = 0; p < labels.length; p++, i += channels) {
+    const a = channels >= 4 ? Number(data[i + 3] ?? 255) : 255;
+    if (a < 128) continue;
+    const key = (Number(data[i] ?? 0) << 16) | (Number(data[i + 1] ?? 0) << 8) | Number(data[i + 2] ?? 0);
+    labels[p] = lookup.get(key) ?? 255;
+  }
+  return labels;
+}
+
+/**
+ * Area, bounding box and dominant gradient angle of every palette region in a single pass.
+ * The angle is sampled on edge pixels only, where the orientation field is meaningful.
+ */
+function regionStats(
+  labels: Uint8Array,
+  width: number,
+  count: number,
+  orientation: { orientationBins: Uint8Array; numBins: number },
+  edgeMap: Uint8Array
+): Array<{ area: number; bbox: BBox; angle: number }> {
+  const stats = Array.from({ length: count }, () => ({
+    area: 0,
+    bbox: { minX: Infinity, minY: Infinity, maxX: -1, maxY: -1 },
+    hist: new Array<number>(orientation.numBins).fill(0)
+  }));
+  for (let i = 0; i < labels.length; i++) {
+    const s = stats[Number(labels[i])];
+    if (!s) continue;
+    const x = i % width, y = (i - x) / width;
+    s.area++;
+    if (x < s.bbox.minX) s.bbox.minX = x; if (x > s.bbox.maxX) s.bbox.maxX = x;
+    if (y < s.bbox.minY) s.bbox.minY = y; if (y > s.bbox.maxY) s.bbox.maxY = y;
+    if (edgeMap[i]) {
+      const bin = Number(orientation.orientationBins[i] ?? 0);
+      s.hist[bin] = (s.hist[bin] ?? 0) + 1;
+    }
+  }
+  return stats.map(({ area, bbox, hist }) => {
+    let best = 0, samples = 0;
+    for (let b = 0; b < hist.length; b++) {
+      samples += hist[b] ?? 0;
+      if ((hist[b] ?? 0) > (hist[best] ?? 0)) best = b;
+    }
+    return { area, bbox, angle: samples ? getBinAngle(best, orientation.numBins) : Math.PI / 4 };
+  });
+}
+
+/**
+ * Tatami-style fill: parallel rows at `angle`, alternating direction, staggered stitch ends
+ */
+function fillRegion(
+  labels: Uint8Array,
+  index: number,
+  width: number,
+  height: number,
+  bbox: BBox,
+  angle: number,
+  opts: { rowSpacing: number; maxStitch: number }
+): Segment[] {
+  const dx = Math.cos(angle), dy = Math.sin(angle);
+  const nx = -dy, ny = dx;
+  const { minX, minY, maxX, maxY } = bbox;
+  if (maxX < 0) return [];
+
+  const corners: Point[] = [{ x: minX, y: minY }, { x: maxX, y: minY }, { x: minX, y: maxY }, { x: maxX, y: maxY }];
+  const sProj = corners.map(c => c.x * nx + c.y * ny);
+  const tProj = corners.map(c => c.x * dx + c.y * dy);
+  const s0 = Math.min(...sProj), s1 = Math.max(...sProj);
+  const t0 = Math.floor(Math.min(...tProj)), t1 = Math.ceil(Math.max(...tProj));
+
+  const inside = (s: number, t: number) => {
+    const x = Math.round(s * nx + t * dx), y = Math.round(s * ny + t * dy);
+    return x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === index;
+  };
+  const at = (s: number, t: number): Point => ({ x: s * nx + t * dx, y: s * ny + t * dy });
+
+  const segments: Segment[] = [];
+  let row = 0;
+  for (let s = s0 + opts.rowSpacing / 2; s <= s1; s += opts.rowSpacing, row++) {
+    const runs: Array<[number, number]> = [];
+    // Row coordinates can be negative, so an open run is marked by a defined start
+    let start: number | undefined;
+    for (let t = t0; t <= t1 + 1; t++) {
+      const on = t <= t1 && inside(s, t);
+      if (on && start === undefined) start = t;
+      if (!on && start !== undefined) { if (t - 1 - start >= 1) runs.push([start, t - 1]); start = undefined; }
+    }
+    const reverse = row % 2 === 1;
+    if (reverse) runs.reverse();
+    // Brick offset so needle penetrations don't line up between neighbouring rows
+    const phase = ((row % 3) / 3) * opts.maxStitch;
+    for (const [a, b] of runs) {
+      const ts: number[] = [a];
+      for (let t = a + opts.maxStitch - phase; t < b; t += opts.maxStitch) if (t > a) ts.push(t);
+      ts.push(b);
+      if (reverse) ts.reverse();
+      segments.push({ points: ts.map(t => at(s, t)) });
+    }
+  }
+  return mergeNearbySegments(segments, opts.maxStitch);
+}
+
+/**
+ * Join consecutive rows whose ends are close enough to travel with a stitch instead of a jump
+ */
+function mergeNearbySegments(segments: Segment[], maxGap: number): Segment[] {
+  const out: Segment[] = [];
+  for (const seg of segments) {
+    const prev = out[out.length - 1];
+    const last = prev?.points[prev.points.length - 1];
+    const first = seg.points[0];
+    if (prev && last && first && Math.hypot(first.x - last.x, first.y - last.y) <= maxGap) {
+      prev.points.push(...seg.points);
+    } else {
+      out.push({ points: seg.points.slice() });
+    }
+  }
+  return out;
+}
+
+/**
+ * Moore-neighbour trace of every opaque component's outer boundary, kept only where it lies in the rim band
+ */
+export function traceRim(labels: Uint8Array, rimBand: Uint8Array, width: number, height: number, minLength: number): Point[][] {
+  const opaque = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] !== 255;
+  const seen = new Uint8Array(width * height);
+  const contours: Point[][] = [];
+  const dirs: Array<[number, number]> = [[-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1]];
+  const stack: number[] = [];
+
+  for (let start = 0; start < labels.length; start++) {
+    if (seen[start] || labels[start] === 255) continue;
+    // Flood the component so each one is traced once, from its first pixel in raster order
+    stack.push(start); seen[start] = 1;
+    while (stack.length) {
+      const p = stack.pop()!;
+      const px = p % width, py = (p - px) / width;
+      for (const [ox, oy] of dirs) {
+        const x = px + ox, y = py + oy;
+        if (!opaque(x, y) || seen[y * width + x]) continue;
+        seen[y * width + x] = 1; stack.push(y * width + x);
+      }
+    }
+
+    const sx = start % width, sy = (start - sx) / width;
+    const boundary: Point[] = [{ x: sx, y: sy }];
+    let cx = sx, cy = sy, back = 0; // entered from the west
+    const limit = width * height;
+    for (let steps = 0; steps < limit; steps++) {
+      let moved = false;
+      for (let k = 1; k <= 8; k++) {
+        const d = (back + k) % 8;
+        const [ox, oy] = dirs[d]!;
+        if (opaque(cx + ox, cy + oy)) {
+          cx += ox; cy += oy;
+          back = (d + 4) % 8;
+          moved = true;
+          break;
+        }
+      }
+      if (!moved || (cx === sx && cy === sy)) break;
+      boundary.push({ x: cx, y: cy });
+    }
+
+    let current: Point[] = [];
+    for (const p of boundary) {
+      if (rimBand[p.y * width + p.x]) { current.push(p); continue; }
+      if (current.length >= minLength) contours.push(current);
+      current = [];
+    }
+    if (current.length >= minLength) contours.push(current);
+  }
+  return contours;
+}
+
+function resample(points: Point[], spacing: number): Point[] {
+  const out: Point[] = [];
+  if (!points.length) return out;
+  out.push(points[0]!);
+  let acc = 0;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!, b = points[i]!;
+    acc += Math.hypot(b.x - a.x, b.y - a.y);
+    if (acc >= spacing) { out.push(b); acc = 0; }
+  }
+  const last = points[points.length - 1]!;
+  if (out[out.length - 1] !== last) out.push(last);
+  return out;
+}
+
+function runningStitch(points: Point[], length: number): Segment {
+  return { points: resample(points, length) };
+}
+
+/**
+ * Bean (triple) stitch: every running stitch is sewn forward, back and forward again for a bolder line
+ */
+function beanStitch(points: Point[], length: number): Segment {
+  const run = resample(points, length);
+  const out: Point[] = run.slice(0, 1);
+  for (let i = 1; i < run.length; i++) out.push(run[i]!, run[i - 1]!, run[i]!);
+  return { points: out };
+}
+
+/**
+ * Satin column centred on the contour: needle alternates across the normal of the local tangent. With `slant` the
+ * outer end of each stitch is pushed along the tangent by that fraction of the width, as overlock wraps lean.
+ */
+function satinColumn(points: Point[], width: number, spacing: number, slant = 0): Segment {
+  const centre = resample(points, spacing);
+  const half = width / 2;
+  const out: Point[] = [];
+  for (let i = 0; i < centre.length; i++) {
+    const p = centre[i]!;
+    const a = centre[Math.max(0, i - 2)]!, b = centre[Math.min(centre.length - 1, i + 2)]!;
+    const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const tx = (b.x - a.x) / len, ty = (b.y - a.y) / len;
+    const side = i % 2 === 0 ? 1 : -1;
+    const lean = side > 0 ? slant * width : 0;
+    out.push({ x: p.x - ty * half * side + tx * lean, y: p.y + tx * half * side + ty * lean });
+  }
+  return { points: out };
+}
+
+/**
+ * Flatten colour blocks into one stitch sequence in machine units, with tie-ins/tie-offs around jumps
+ */
+function sequenceBlocks(
+  blocks: Array<{ color: { r: number; g: number; b: number }; segments: Segment[] }>,
+  width: number,
+  height: number,
+  ppm: number
+): StitchPlan {
+  const unit = 10 / ppm;
+  const cx = width / 2, cy = height / 2;
+  const toUnits = (p: Point) => ({ x: Math.round((p.x - cx) * unit), y: Math.round((p.y - cy) * unit) });
+  const jumpThreshold = JUMP_THRESHOLD_MM * 10;
+
+  const stitches: Stitch[] = [];
+  const threads: StitchPlan['threads'] = [];
+  let colorChanges = 0;
+  let stitchCount = 0;
+  let pos = { x: 0, y: 0 };
+
+  const tie = (p: { x: number; y: number }, towards: { x: number; y: number }) => {
+    const len = Math.hypot(towards.x - p.x, towards.y - p.y) || 1;
+    const ox = Math.round(((towards.x - p.x) / len) * 3), oy = Math.round(((towards.y - p.y) / len) * 3);
+    stitches.push({ x: p.x + ox, y: p.y + oy, command: 'stitch' }, { x: p.x, y: p.y, command: 'stitch' });
+    stitchCount += 2;
+  };
+
+  for (const block of blocks) {
+    const prevThread = threads[threads.length - 1];
+    if (prevThread && (prevThread.r !== block.color.r || prevThread.g !== block.color.g || prevThread.b !== block.color.b)) {
+      stitches.push({ x: pos.x, y: pos.y, command: 'color' });
+      colorChanges++;
+    }
+    if (!prevThread || stitches[stitches.length - 1]?.command === 'color') threads.push(block.color);
+
+    for (const seg of block.segments) {
+      const pts = seg.points.map(toUnits);
+      const first = pts[0];
+      if (!first) continue;
+      const jumped = Math.hypot(first.x - pos.x, first.y - pos.y) > jumpThreshold || stitchCount === 0;
+      if (jumped) {
+        const prev = stitches[stitches.length - 1];
+        if (prev?.command === 'stitch') tie(pos, stitches[stitches.length - 3] ?? pos);
+        stitches.push({ x: first.x, y: first.y, command: 'jump' });
+        tie(first, pts[1] ?? first);
+      } else {
+        stitches.push({ x: first.x, y: first.y, command: 'stitch' }); stitchCount++;
+      }
+      for (let i = 1; i < pts.length; i++) {
+        const p = pts[i]!;
+        const last = stitches[stitches.length - 1]!;
+        if (p.x === last.x && p.y === last.y) continue;
+        stitches.push({ x: p.x, y: p.y, command: 'stitch' }); stitchCount++;
+      }
+      pos = stitches[stitches.length - 1]!;
+    }
+  }
+  if (stitches[stitches.length - 1]?.command === 'stitch') tie(pos, stitches[stitches.length - 3] ?? pos);
+  stitches.push({ x: pos.x, y: pos.y, command: 'end' });
+
+  return { stitches, threads, extents: stitchExtents(stitches), stitchCount, colorChanges };
+}
+
+export function stitchExtents(stitches: Stitch[]): StitchPlan['extents'] {
+  let minX = 0, minY = 0, maxX = 0, maxY = 0;
+  for (const s of stitches) {
+    if (s.x < minX) minX = s.x; if (s.x > maxX) maxX = s.x;
+    if (s.y < minY) minY = s.y; if (s.y > maxY) maxY = s.y;
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+/**
+ * Split moves longer than a format's per-record limit into equal sub-moves of the same command
+ */
+export function limitMoveLength(stitches: Stitch[], maxDelta: number): Stitch[] {
+  const out: Stitch[] = [];
+  let x = 0, y = 0;
+  for (const s of stitches) {
+    const dx = s.x - x, dy = s.y - y;
+    const steps = Math.ceil(Math.max(Math.abs(dx), Math.abs(dy)) / maxDelta);
+    if ((s.command === 'stitch' || s.command === 'jump') && steps > 1) {
+      for (let k = 1; k < steps; k++) {
+        out.push({ x: x + Math.round((dx * k) / steps), y: y + Math.round((dy * k) / steps), command: s.command });
+      }
+    }
+    out.push(s);
+    x = s.x; y = s.y;
+  }
+  return out;
+}
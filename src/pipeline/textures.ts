@@ -1,49 +1,57 @@
 import { createCanvas } from 'canvas';
 import sharp from 'sharp';
+import { seededRandom } from './utils.ts';
+import { grainStitches } from './grain.ts';
 
 interface TextureResult {
   threadTextures: Buffer[];
-  hatchPatterns: Buffer[];
   threadThickness: number;
+  // Identifies the texture set (thickness, density, grain, seed); caches of anything built from it key on this
+  textureKey: string;
 }
 
 // **Global texture cache - persistent across requests**
 const globalTextureCache = new Map<string, Buffer[]>();
+// Grainy textures are per seed, so the cache is bounded (oldest entry evicted first)
+const MAX_CACHED_TEXTURE_SETS = 64;
 
 export async function generateTextures(
   quantized: { data: Buffer; info: sharp.Raw },
   orientation: { orientationBins: any },
   options: {
     threadThickness: number;
-    hatch: 'none' | 'diagonal' | 'cross';
     densityScale?: number;
     grainRandomness?: number;
     sheen?: number;
+    // Drives the grain perturbation; the same seed always yields the same textures
+    seed?: number;
   }
 ): Promise<TextureResult> {
   try {
-    const { threadThickness, hatch } = options;
+    const { threadThickness } = options;
     const density = Math.max(0.5, Math.min(2, options.densityScale ?? 1));
+    const grain = Math.max(0, Math.min(1, options.grainRandomness ?? 0));
+    const seed = options.seed ?? 1;
     
     // **Check global cache first**
-    const cacheKey = `${threadThickness}_${hatch}_${density}`;
+    const cacheKey = grain > 0 ? `${threadThickness}_${density}_${grain}_${seed}` : `${threadThickness}_${density}`;
     if (globalTextureCache.has(cacheKey)) {
       const cached = globalTextureCache.get(cacheKey)!;
       return {
         threadTextures: cached.slice(0, 6), // Reduced from 8
-        hatchPatterns: cached.slice(6),
-        threadThickness
+        threadThickness,
+        textureKey: cacheKey
       };
     }
     
     // **Generate fewer, smaller textures for speed**
-    const threadTextures = await generateThreadTexturesFast(threadThickness, density);
-    const hatchPatterns = await generateHatchPatternsFast(hatch, density);
+    const threadTextures = await generateThreadTexturesFast(threadThickness, density, grain, seed);
     
     // **Cache for reuse**
-    globalTextureCache.set(cacheKey, [...threadTextures, ...hatchPatterns]);
+    if (globalTextureCache.size >= MAX_CACHED_TEXTURE_SETS) globalTextureCache.delete(globalTextureCache.keys().next().value!);
+    globalTextureCache.set(cacheKey, threadTextures);
     
-    return { threadTextures, hatchPatterns, threadThickness };
+    return { threadTextures, threadThickness, textureKey: cacheKey };
   } catch (error: any) {
     console.error('Error generating textures:', error);
     throw new Error(`Texture generation failed: ${error}`);
@@ -53,14 +61,17 @@ export async function generateTextures(
 /**
  * **Fast thread texture generation with reduced size and count**
  */
-async function generateThreadTexturesFast(threadThickness: number, density: number): Promise<Buffer[]> {
+async function generateThreadTexturesFast(threadThickness: number, density: number, grain: number, seed: number): Promise<Buffer[]> {
   const size = 64; // Reduced from 256 for speed
   const numBins = 6; // Reduced from 8 for speed
   const textures: Buffer[] = [];
+  const rand = seededRandom(seed);
 
   for (let binIndex = 0; binIndex < numBins; binIndex++) {
     const angle = (binIndex * 180) / numBins;
-    const texture = createThreadTextureFast(size, angle, threadThickness, density);
+    const texture = grain > 0
+      ? createGrainyThreadTexture(size, angle, threadThickness, density, grain, rand)
+      : createThreadTextureFast(size, angle, threadThickness, density);
     textures.push(texture);
   }
 
@@ -103,88 +114,38 @@ function createThreadTextureFast(size: number, angle: number, thickness: number,
 }
 
 /**
- * **Fast hatch pattern generation**
+ * Thread texture with grain, drawn from the seeded stitch layout of grainStitches()
  */
-async function generateHatchPatternsFast(hatchType: 'none' | 'diagonal' | 'cross', density: number): Promise<Buffer[]> {
-  const size = 32; // Reduced from 128 for speed
-  const patterns: Buffer[] = [];
-  
-  if (hatchType === 'none') {
-    const canvas = createCanvas(size, size);
-    const ctx = canvas.getContext('2d');
-    ctx.clearRect(0, 0, size, size);
-    patterns.push(canvas.toBuffer('image/png'));
-    
-  } else if (hatchType === 'diagonal') {
-    const diagonal = createHatchPatternFast(size, 45, density);
-    patterns.push(diagonal);
-    
-  } else if (hatchType === 'cross') {
-    // **Simple cross pattern without complex blending**
-    const cross = createCrossHatchFast(size, density);
-    patterns.push(cross);
-  }
-  
-  return patterns;
-}
-
-/**
- * **Simplified hatch pattern**
- */
-function createHatchPatternFast(size: number, angle: number, density: number): Buffer {
+function createGrainyThreadTexture(size: number, angle: number, thickness: number, density: number, grain: number, rand: () => number): Buffer {
   const canvas = createCanvas(size, size);
   const ctx = canvas.getContext('2d');
-  
   ctx.clearRect(0, 0, size, size);
-  ctx.strokeStyle = 'rgba(0, 0, 0, 0.4)';
-  ctx.lineWidth = 1;
-  
-  const lineSpacing = Math.max(3, Math.round(4 / density));
-  const lineCount = Math.ceil(size * 2 / lineSpacing);
-  
+
   ctx.save();
   ctx.translate(size / 2, size / 2);
   ctx.rotate((angle * Math.PI) / 180);
   ctx.translate(-size / 2, -size / 2);
-  
-  ctx.beginPath();
-  for (let i = 0; i < lineCount; i++) {
-    const offset = i * lineSpacing - size;
-    ctx.moveTo(offset, 0);
-    ctx.lineTo(offset + size, size);
+
+  for (const stitch of grainStitches(size, thickness, density, grain, rand)) {
+    const { width, length } = stitch;
+    const dark = shade(0x33, stitch.tone), light = shade(0x88, stitch.tone);
+    ctx.save();
+    ctx.translate(stitch.x + width / 2, stitch.y + length / 2);
+    ctx.rotate(stitch.tilt);
+    const gradient = ctx.createLinearGradient(-width / 2, 0, width / 2, 0);
+    gradient.addColorStop(0, dark);
+    gradient.addColorStop(0.5, light);
+    gradient.addColorStop(1, dark);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(-width / 2, -length / 2, width, length);
+    ctx.restore();
   }
-  ctx.stroke();
-  
+
   ctx.restore();
   return canvas.toBuffer('image/png');
 }
 
-/**
- * **Simple cross-hatch pattern**
- */
-function createCrossHatchFast(size: number, density: number): Buffer {
-  const canvas = createCanvas(size, size);
-  const ctx = canvas.getContext('2d');
-  
-  ctx.clearRect(0, 0, size, size);
-  ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
-  ctx.lineWidth = 1;
-  
-  const lineSpacing = Math.max(3, Math.round(4 / density));
-  const lineCount = Math.ceil(size * 2 / lineSpacing);
-  
-  // **Draw both diagonal directions in one pass**
-  ctx.beginPath();
-  for (let i = 0; i < lineCount; i++) {
-    const offset = i * lineSpacing - size;
-    // 45 degree lines
-    ctx.moveTo(offset, 0);
-    ctx.lineTo(offset + size, size);
-    // -45 degree lines  
-    ctx.moveTo(offset, size);
-    ctx.lineTo(offset + size, 0);
-  }
-  ctx.stroke();
-  
-  return canvas.toBuffer('image/png');
-}
\ No newline at end of file
+function shade(level: number, tone: number): string {
+  const v = Math.max(0, Math.min(255, Math.round(level * tone)));
+  return `rgb(${v}, ${v}, ${v})`;
+}
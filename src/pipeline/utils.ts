@@ -1,4 +1,5 @@
 import sharp from 'sharp';
+import { createHash } from 'node:crypto';
 
 export function rgbaToGray(rgba: Buffer, info: { width: number; height: number; channels: number }): Uint8Array {
 	const { width, height, channels } = info as any;
@@ -40,7 +41,43 @@ export function gaussianBlur3x3(gray: Uint8Array, width: number, height: number)
 	return out;
 }
 
-export function sobel(gray: Uint8Array, width: number, height: number): { gx: Float32Array; gy: Float32Array } {
+/**
+ * Separable Gaussian blur on a float buffer, clamped at the borders
+ */
+export function gaussianBlurFloat(src: Float32Array, width: number, height: number, sigma: number): Float32Array {
+	const radius = Math.max(1, Math.ceil(sigma * 3));
+	const kernel = new Float32Array(radius * 2 + 1);
+	let sum = 0;
+	for (let i = -radius; i <= radius; i++) { const v = Math.exp(-(i * i) / (2 * sigma * sigma)); kernel[i + radius] = v; sum += v; }
+	for (let i = 0; i < kernel.length; i++) kernel[i] = Number(kernel[i] ?? 0) / sum;
+
+	const tmp = new Float32Array(width * height);
+	const out = new Float32Array(width * height);
+	for (let y = 0; y < height; y++) {
+		const row = y * width;
+		for (let x = 0; x < width; x++) {
+			let acc = 0;
+			for (let k = -radius; k <= radius; k++) {
+				const xx = x + k < 0 ? 0 : x + k >= width ? width - 1 : x + k;
+				acc += src[row + xx]! * kernel[k + radius]!;
+			}
+			tmp[row + x] = acc;
+		}
+	}
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let acc = 0;
+			for (let k = -radius; k <= radius; k++) {
+				const yy = y + k < 0 ? 0 : y + k >= height ? height - 1 : y + k;
+				acc += tmp[yy * width + x]! * kernel[k + radius]!;
+			}
+			out[y * width + x] = acc;
+		}
+	}
+	return out;
+}
+
+export function sobel(gray: Uint8Array | Float32Array, width: number, height: number): { gx: Float32Array; gy: Float32Array } {
 	const kx: number[] = [-1,0,1,-2,0,2,-1,0,1];
 	const ky: number[] = [-1,-2,-1,0,0,0,1,2,1];
 	const gx = new Float32Array(width * height);
@@ -158,4 +195,11 @@ export function seededRandom(seed: number): () => number {
 	return () => { s = (s * 1664525 + 1013904223) >>> 0; return (s & 0xfffffff) / 0xfffffff; };
 }
 
+/**
+ * Stable 32-bit seed from content (first word of its SHA-256), so the same input always renders the same way
+ */
+export function seedFromBuffer(data: Buffer): number {
+	return createHash('sha256').update(data).digest().readUInt32LE(0);
+}
+
 
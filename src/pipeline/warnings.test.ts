@@ -0,0 +1,52 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import sharp from 'sharp';
+import { quantizeColors, type QuantizeMethod } from './quantize.ts';
+import { computeWarnings } from './warnings.ts';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '../__fixtures__');
+
+// label.png at 10 px/mm: "ACME TOOLS" with 2.2mm capitals and a 0.5mm square speck on white, next to anti-aliased
+// shapes whose edges quantize into fringes of in-between colors
+async function labelWarnings(method: QuantizeMethod) {
+  const { data, info } = await sharp(fs.readFileSync(path.join(FIXTURES, 'label.png'))).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const quantized = await quantizeColors({ data, info }, 12, { method });
+  return computeWarnings(quantized, undefined, { pixelsPerMm: 10, threadThickness: 3 }).warnings;
+}
+
+describe.each<QuantizeMethod>(['kmeans', 'wu', 'median-cut', 'frequency'])('warnings with %s quantization', method => {
+  it('finds small text on an opaque background', async () => {
+    const text = (await labelWarnings(method)).filter(w => w.code === 'small_text');
+    expect(text).toHaveLength(1);
+    expect(text[0]!.severity).toBe('error');
+    expect(text[0]!.message).toMatch(/about 2\.\dmm tall/);
+    // The text line, not the shapes above it
+    const { x, y, height } = text[0]!.bbox!;
+    expect([x, y, height]).toEqual([41, 183, 22]);
+  });
+
+  it('reports the speck but not anti-aliasing fringes as tiny islands', async () => {
+    const islands = (await labelWarnings(method)).filter(w => w.code === 'tiny_island');
+    expect(islands.map(w => w.bbox)).toEqual([{ x: 300, y: 200, width: 5, height: 5 }]);
+  });
+});
+
+describe('thin strokes', () => {
+  // A 4px (0.4mm) navy bar on white
+  async function barWarnings(threadThickness: number) {
+    const width = 120, height = 60, data = Buffer.alloc(width * height * 4, 255);
+    for (let y = 28; y < 32; y++) {
+      for (let x = 10; x < 110; x++) data.set([20, 40, 120, 255], (y * width + x) * 4);
+    }
+    const quantized = await quantizeColors({ data, info: { width, height, channels: 4 } }, 4);
+    return computeWarnings(quantized, undefined, { pixelsPerMm: 10, threadThickness }).warnings.filter(w => w.code === 'thin_stroke');
+  }
+
+  it('are judged against the thread width', async () => {
+    expect(await barWarnings(3)).toEqual([]);
+    const [stroke] = await barWarnings(6);
+    expect(stroke).toMatchObject({ severity: 'warning', message: expect.stringContaining('thinner than the 0.6mm thread') });
+    expect((await barWarnings(10))[0]?.severity).toBe('error');
+  });
+});
@@ -1,39 +1,522 @@
+import sharp from 'sharp';
 import { distanceTransform } from './utils.ts';
+import { labelPalette, MIN_REGION_MM2 } from './stitches.ts';
+import { deltaE76Sq, rgbToLab } from './color.ts';
 
-export interface WarningResult { warnings: string[] }
+export type WarningCode =
+  | 'thin_stroke' | 'narrow_gap' | 'small_text' | 'tiny_island' | 'dense_detail'
+  | 'palette_reduced' | 'replace_skipped' | 'dpi_reduced' | 'alpha_flattened';
 
+export type WarningSeverity = 'info' | 'warning' | 'error';
+
+// Pixel rectangle in the design image (before any mockup placement)
+export interface WarningBox { x: number; y: number; width: number; height: number }
+
+export interface DesignWarning {
+  code: WarningCode;
+  severity: WarningSeverity;
+  message: string;
+  bbox?: WarningBox;
+}
+
+export interface WarningResult { warnings: DesignWarning[] }
+
+export interface WarningOptions {
+  pixelsPerMm: number;
+  // Thread width in pixels; gaps narrower than this close up once stitched
+  threadThickness: number;
+  maxColors?: number;
+  // When set (one byte per design pixel), the pixels behind each located warning are flagged with PROBLEM_BITS
+  problemMask?: Uint8Array;
+}
+
+// Bit per located warning code in WarningOptions.problemMask; merged colors are flagged by the overlay renderer
+export const PROBLEM_BITS = {
+  thin_stroke: 1,
+  narrow_gap: 2,
+  tiny_island: 4,
+  small_text: 8,
+  dense_detail: 16,
+  palette_reduced: 32
+} as const satisfies Partial<Record<WarningCode, number>>;
+
+// Physical limits (mm): text under MIN_TEXT_MM loses legibility
+const MIN_TEXT_MM = 5;
+const ILLEGIBLE_TEXT_MM = 2.5;
+// Localized detail: share of edge pixels per DETAIL_CELL_MM square
+const DETAIL_CELL_MM = 10;
+const DENSE_EDGE_SHARE = 0.15;
+// Thin runs shorter than this many times the limit are corner artifacts of the distance field
+const MIN_FEATURE_LENGTH = 2;
+// Glyph-like blobs: partly filled and roughly letter-shaped. Past MAX_GLYPHS candidates the image is texture, not text
+const GLYPH_MIN_FILL = 0.12;
+const GLYPH_MAX_FILL = 0.85;
+// Stems (l, I, 1) are solid, but only narrow ones
+const GLYPH_STEM_ASPECT = 0.35;
+const GLYPH_MIN_ASPECT = 0.1;
+const GLYPH_MAX_ASPECT = 2.5;
+const MAX_GLYPHS = 600;
+const GLYPH_HEIGHT_RATIO = 1.6;
+const MIN_GLYPH_PX = 4;
+// A speck blends into the larger regions it touches when within this CIELAB distance of one, or between two of them
+// (its distances to both summing to at most BLEND_SLACK times theirs)
+const BLEND_DELTA_E = 45;
+const BLEND_SLACK = 1.2;
+// Located warnings kept per code; the rest are folded into one summary warning
+const MAX_PER_CODE = 8;
+
+const SEVERITY_RANK: Record<WarningSeverity, number> = { error: 2, warning: 1, info: 0 };
+
+const SUMMARY_NOUN: Partial<Record<WarningCode, string>> = {
+  thin_stroke: 'thin strokes',
+  narrow_gap: 'narrow gaps',
+  small_text: 'small text areas',
+  tiny_island: 'tiny islands',
+  dense_detail: 'dense detail areas'
+};
+
+type Box = { minX: number; minY: number; maxX: number; maxY: number };
+type Located = DesignWarning & { size: number };
+type Glyph = Box & { label: number };
+
+/**
+ * Suitability checks on the quantized design, all judged in millimetres. Regions come from connected components of
+ * the palette labels; the background is whatever owns most of the border, the transparent area or a color.
+ */
 export function computeWarnings(
-  alphaMask: Uint8Array,
-  width: number,
-  height: number,
-  threadThickness: number,
-  edgeMask?: Uint8Array,
-  maxColors?: number,
-  paletteSize?: number
+  quantized: { data: Buffer; info: sharp.Raw; palette: Array<{ r: number; g: number; b: number; a: number }>; sourceColors?: number },
+  edgeMask: Uint8Array | undefined,
+  options: WarningOptions
 ): WarningResult {
-  const warnings: string[] = [];
+  const { data, info, palette } = quantized;
+  const { width, height } = info;
+  const ppm = options.pixelsPerMm;
+  const labels = labelPalette(data, width, height, info.channels, palette);
+  const background = backgroundLabel(labels, width, height);
 
-  // Thin strokes: use distance transform on alpha to estimate min stroke width
-  const distIn = distanceTransform(alphaMask, width, height);
-  let minStroke = Infinity; let samples = 0;
-  for (let i = 0; i < distIn.length; i++) {
-    if (alphaMask[i]) { minStroke = Math.min(minStroke, Number(distIn[i] ?? 0) * 2); samples++; }
+  const mask = options.problemMask;
+  const located: Located[] = [
+    ...thinFeatures(labels, background, width, height, ppm, options.threadThickness, mask),
+    ...componentWarnings(labels, background, palette.map(c => rgbToLab(c.r, c.g, c.b)), width, height, ppm, mask),
+    ...(edgeMask ? denseDetail(edgeMask, width, height, ppm, mask) : [])
+  ];
+
+  const warnings = capPerCode(located);
+  if (typeof options.maxColors === 'number' && typeof quantized.sourceColors === 'number' && quantized.sourceColors > options.maxColors) {
+    warnings.push({ code: 'palette_reduced', severity: 'info', message: `Reduced ${quantized.sourceColors} colors to ${palette.length}` });
   }
-  if (samples > 0 && minStroke < threadThickness) {
-    warnings.push('Thin strokes may not embroider cleanly');
+  return { warnings };
+}
+
+/**
+ * The label owning most of the image border, transparency (255) included
+ */
+function backgroundLabel(labels: Uint8Array, width: number, height: number): number {
+  const counts = new Array<number>(256).fill(0);
+  for (let x = 0; x < width; x++) { counts[labels[x]!]!++; counts[labels[(height - 1) * width + x]!]!++; }
+  for (let y = 0; y < height; y++) { counts[labels[y * width]!]!++; counts[labels[y * width + width - 1]!]!++; }
+  return counts.indexOf(Math.max(...counts));
+}
+
+/**
+ * Thin strokes (design narrower than the thread, which satin can't cover) and narrow gaps (background narrower than the
+ * thread, which close up). Width is
+ * read on the centerline of each side of the design/background split: twice the distance to the split, plus one.
+ */
+function thinFeatures(labels: Uint8Array, background: number, width: number, height: number, ppm: number, threadThickness: number, mask?: Uint8Array): Located[] {
+  const n = labels.length;
+  const raw = new Uint8Array(n);
+  for (let p = 0; p < n; p++) raw[p] = labels[p] === background ? 1 : 0;
+  const side = majority3x3(raw, width, height);
+  const boundary = new Uint8Array(n);
+  for (let y = 0, p = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, p++) {
+      const s = side[p];
+      if ((x > 0 && side[p - 1] !== s) || (x < width - 1 && side[p + 1] !== s) || (y > 0 && side[p - width] !== s) || (y < height - 1 && side[p + width] !== s)) {
+        boundary[p] = 1;
+      }
+    }
   }
+  const dist = distanceTransform(boundary, width, height);
 
-  // High edge density
-  if (edgeMask) {
-    let on = 0; for (let i = 0; i < edgeMask.length; i++) on += edgeMask[i] ? 1 : 0;
-    const ratio = on / edgeMask.length;
-    if (ratio > 0.12) warnings.push('Dense detail may fill in on fabric');
+  const limit = threadThickness;
+  const strokes = new Float32Array(n);
+  const gaps = new Float32Array(n);
+  for (let y = 0, p = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, p++) {
+      const d = dist[p]!;
+      // Only narrow spots matter, which also skips the deep interior cheaply
+      if (d * 2 + 1 >= limit) continue;
+      const s = side[p]!;
+      // Centerline: no neighbour on the same side of the split lies further from it
+      if ((x > 0 && side[p - 1] === s && dist[p - 1]! > d) || (x < width - 1 && side[p + 1] === s && dist[p + 1]! > d)
+        || (y > 0 && side[p - width] === s && dist[p - width]! > d) || (y < height - 1 && side[p + width] === s && dist[p + width]! > d)) continue;
+      const w = d * 2 + 1;
+      if (s) gaps[p] = w;
+      else strokes[p] = w;
+    }
   }
 
-  // Palette reduction notice
-  if (typeof maxColors === 'number' && typeof paletteSize === 'number' && paletteSize > maxColors) {
-    warnings.push(`Reduced colors to ${maxColors}`);
+  const cell = Math.max(8, Math.round(2 * ppm));
+  const threadMm = (threadThickness / ppm).toFixed(1);
+  const out: Located[] = [];
+  for (const c of clusterPixels(strokes, width, height, cell)) {
+    if (c.count < MIN_FEATURE_LENGTH * limit) continue;
+    out.push(located('thin_stroke', c.mean < limit / 2 ? 'error' : 'warning',
+      `Stroke about ${(c.mean / ppm).toFixed(1)}mm wide is thinner than the ${threadMm}mm thread and may not embroider cleanly`, c.box, c.count));
+    if (mask) paintWidths(mask, strokes, width, height, c.box, PROBLEM_BITS.thin_stroke);
   }
+  for (const c of clusterPixels(gaps, width, height, cell)) {
+    // Background strips along the image edge are margins, not gaps
+    if (c.count < MIN_FEATURE_LENGTH * limit || c.box.minX === 0 || c.box.minY === 0 || c.box.maxX === width - 1 || c.box.maxY === height - 1) continue;
+    out.push(located('narrow_gap', 'warning',
+      `Gap about ${(c.mean / ppm).toFixed(1)}mm wide is narrower than the ${threadMm}mm thread and may close up`, c.box, c.count));
+    if (mask) paintWidths(mask, gaps, width, height, c.box, PROBLEM_BITS.narrow_gap);
+  }
+  return out;
+}
 
-  return { warnings };
+/**
+ * Widen centerline pixels back to the feature they measure: a square of the measured width around each one
+ */
+function paintWidths(mask: Uint8Array, widths: Float32Array, width: number, height: number, box: Box, bit: number) {
+  for (let y = box.minY; y <= box.maxY; y++) {
+    for (let x = box.minX; x <= box.maxX; x++) {
+      const w = widths[y * width + x]!;
+      if (!w) continue;
+      const r = Math.floor(w / 2);
+      for (let yy = Math.max(0, y - r); yy <= Math.min(height - 1, y + r); yy++) {
+        for (let xx = Math.max(0, x - r); xx <= Math.min(width - 1, x + r); xx++) mask[yy * width + xx]! |= bit;
+      }
+    }
+  }
+}
+
+function paintBox(mask: Uint8Array, width: number, box: Box, bit: number) {
+  for (let y = box.minY; y <= box.maxY; y++) {
+    for (let x = box.minX; x <= box.maxX; x++) mask[y * width + x]! |= bit;
+  }
+}
+
+/**
+ * 3x3 majority vote, so anti-aliasing specks and one-pixel notches along edges don't read as strokes or gaps
+ */
+function majority3x3(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const rows = new Uint8Array(mask.length);
+  for (let y = 0, p = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, p++) {
+      rows[p] = mask[p]! + (x > 0 ? mask[p - 1]! : mask[p]!) + (x < width - 1 ? mask[p + 1]! : mask[p]!);
+    }
+  }
+  const out = new Uint8Array(mask.length);
+  for (let y = 0, p = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, p++) {
+      const sum = rows[p]! + (y > 0 ? rows[p - width]! : rows[p]!) + (y < height - 1 ? rows[p + width]! : rows[p]!);
+      out[p] = sum >= 5 ? 1 : 0;
+    }
+  }
+  return out;
+}
+
+/**
+ * Group marked pixels into clusters of touching grid cells; each cluster reports its pixel bbox and mean value
+ */
+function clusterPixels(values: Float32Array, width: number, height: number, cell: number): Array<{ box: Box; count: number; mean: number }> {
+  const cols = Math.ceil(width / cell), rows = Math.ceil(height / cell);
+  const cells = new Array<{ box: Box; count: number; sum: number } | undefined>(cols * rows);
+  for (let y = 0, p = 0; y < height; y++) {
+    const row = Math.floor(y / cell) * cols;
+    for (let x = 0; x < width; x++, p++) {
+      const v = values[p]!;
+      if (!v) continue;
+      const key = row + Math.floor(x / cell);
+      const entry = cells[key] ?? (cells[key] = { box: { minX: x, minY: y, maxX: x, maxY: y }, count: 0, sum: 0 });
+      grow(entry.box, x, y);
+      entry.count++;
+      entry.sum += v;
+    }
+  }
+
+  const clusters: Array<{ box: Box; count: number; mean: number }> = [];
+  const seen = new Uint8Array(cols * rows);
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || seen[start]) continue;
+    const stack = [start];
+    seen[start] = 1;
+    let box: Box | undefined, count = 0, sum = 0;
+    while (stack.length) {
+      const k = stack.pop()!;
+      const entry = cells[k]!;
+      box = box ? merge(box, entry.box) : { ...entry.box };
+      count += entry.count;
+      sum += entry.sum;
+      const cx = k % cols, cy = (k - cx) / cols;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx, ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+          const nk = ny * cols + nx;
+          if (cells[nk] && !seen[nk]) { seen[nk] = 1; stack.push(nk); }
+        }
+      }
+    }
+    clusters.push({ box: box!, count, mean: sum / count });
+  }
+  return clusters;
+}
+
+/**
+ * Connected components, in two segmentations. Per palette label (4-connected): specks below the stitchable area,
+ * unless they blend into the larger regions they touch, as anti-aliasing fringes and shading steps do. Ink against
+ * paper (8-connected): paper is the background, transparency, those fringes and any region too large to be a letter,
+ * so each letter is one blob; glyph-like blobs are grouped into lines of small text.
+ */
+function componentWarnings(labels: Uint8Array, background: number, labs: number[][], width: number, height: number, ppm: number, mask?: Uint8Array): Located[] {
+  const n = labels.length;
+  const stack = new Int32Array(n);
+  const minArea = MIN_REGION_MM2 * ppm * ppm;
+  const textLimit = MIN_TEXT_MM * ppm;
+  const paperArea = textLimit * textLimit;
+
+  // Per-label components
+  const region = new Int32Array(n).fill(-1);
+  const regions: Array<{ label: number; area: number; box: Box; start: number }> = [];
+  for (let start = 0; start < n; start++) {
+    if (region[start]! >= 0) continue;
+    const label = labels[start]!, id = regions.length;
+    const entry = { label, area: 0, box: { minX: width, minY: height, maxX: 0, maxY: 0 }, start };
+    regions.push(entry);
+    let top = 0;
+    stack[top++] = start;
+    region[start] = id;
+    while (top > 0) {
+      const p = stack[--top]!;
+      entry.area++;
+      const x = p % width, y = (p - x) / width;
+      grow(entry.box, x, y);
+      if (x > 0 && region[p - 1]! < 0 && labels[p - 1] === label) { region[p - 1] = id; stack[top++] = p - 1; }
+      if (x < width - 1 && region[p + 1]! < 0 && labels[p + 1] === label) { region[p + 1] = id; stack[top++] = p + 1; }
+      if (y > 0 && region[p - width]! < 0 && labels[p - width] === label) { region[p - width] = id; stack[top++] = p - width; }
+      if (y < height - 1 && region[p + width]! < 0 && labels[p + width] === label) { region[p + width] = id; stack[top++] = p + width; }
+    }
+  }
+  // Specks next to a region at least their size that they blend into are anti-aliasing or shading, neither islands nor
+  // ink of their own
+  const neighbours = new Map<number, Set<number>>();
+  regions.forEach((r, id) => { if (r.area < minArea && r.label !== 255 && r.label !== background) neighbours.set(id, new Set()); });
+  for (let p = 0; p < n; p++) {
+    const id = region[p]!;
+    const touched = neighbours.get(id);
+    if (!touched) continue;
+    const x = p % width, y = (p - x) / width;
+    const own = regions[id]!;
+    for (let dy = -1; dy <= 1; dy++) {
+      const ny = y + dy;
+      if (ny < 0 || ny >= height) continue;
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        if (nx < 0 || nx >= width) continue;
+        const other = regions[region[ny * width + nx]!]!;
+        if (other !== own && other.label !== 255 && other.area >= own.area) touched.add(other.label);
+      }
+    }
+  }
+  const fringe = new Set<number>();
+  for (const [id, touched] of neighbours) if (blendsIn(labs, regions[id]!.label, [...touched])) fringe.add(id);
+  const isPaper = (id: number) => {
+    const r = regions[id]!;
+    return r.label === 255 || r.label === background || r.area >= paperArea || fringe.has(id);
+  };
+
+  // Ink components; letters of small text are often below the stitchable area themselves, so they are collected first
+  const ink = new Int32Array(n).fill(-1);
+  const glyphs: Glyph[] = [];
+  const glyphOfInk = new Map<number, Glyph>();
+  const labelCounts = new Uint32Array(256);
+  let inkCount = 0, glyphCandidates = 0;
+  for (let start = 0; start < n; start++) {
+    if (ink[start]! >= 0 || isPaper(region[start]!)) continue;
+    const id = inkCount++;
+    const box: Box = { minX: width, minY: height, maxX: 0, maxY: 0 };
+    const seen: number[] = [];
+    let top = 0, area = 0;
+    stack[top++] = start;
+    ink[start] = id;
+    while (top > 0) {
+      const p = stack[--top]!;
+      area++;
+      const label = labels[p]!;
+      if (!labelCounts[label]!++) seen.push(label);
+      const x = p % width, y = (p - x) / width;
+      grow(box, x, y);
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const q = ny * width + nx;
+          if (ink[q]! < 0 && !isPaper(region[q]!)) { ink[q] = id; stack[top++] = q; }
+        }
+      }
+    }
+    // A glyph takes the color most of its pixels have, so its fringe doesn't split a line of text
+    let label = seen[0]!;
+    for (const l of seen) { if (labelCounts[l]! > labelCounts[label]!) label = l; }
+    for (const l of seen) labelCounts[l] = 0;
+
+    const w = box.maxX - box.minX + 1, h = box.maxY - box.minY + 1;
+    const fill = area / (w * h), aspect = w / h;
+    if (h >= MIN_GLYPH_PX && h < textLimit && fill >= GLYPH_MIN_FILL && (fill <= GLYPH_MAX_FILL || aspect <= GLYPH_STEM_ASPECT)
+      && aspect >= GLYPH_MIN_ASPECT && aspect <= GLYPH_MAX_ASPECT) {
+      glyphCandidates++;
+      if (glyphs.length < MAX_GLYPHS) {
+        const glyph = { ...box, label };
+        glyphs.push(glyph);
+        glyphOfInk.set(id, glyph);
+      }
+    }
+  }
+
+  const text: Located[] = [];
+  const inText = new Set<Glyph>();
+  if (glyphCandidates <= MAX_GLYPHS) {
+    for (const line of textLines(glyphs)) {
+      for (const glyph of line) inText.add(glyph);
+      const heights = line.map(g => g.maxY - g.minY + 1).sort((a, b) => a - b);
+      const mm = heights[heights.length >> 1]! / ppm;
+      const box = (line as Box[]).reduce(merge);
+      if (mask) for (const glyph of line) paintBox(mask, width, glyph, PROBLEM_BITS.small_text);
+      text.push(located('small_text', mm < ILLEGIBLE_TEXT_MM ? 'error' : 'warning',
+        `Text about ${mm.toFixed(1)}mm tall is below the ${MIN_TEXT_MM}mm minimum and may not be legible`, box, (box.maxX - box.minX + 1) * (box.maxY - box.minY + 1)));
+    }
+  }
+
+  // Letters already reported as text are not islands as well
+  const islands = new Map<number, Located>();
+  for (const id of neighbours.keys()) {
+    const { area, box, start } = regions[id]!;
+    if (area < 2 || fringe.has(id)) continue;
+    const glyph = glyphOfInk.get(ink[start]!);
+    if (glyph && inText.has(glyph)) continue;
+    islands.set(id, located('tiny_island', 'info', `Island of ${(area / (ppm * ppm)).toFixed(2)} square mm is below the ${MIN_REGION_MM2} square mm stitchable area and will be dropped`, box, area));
+  }
+  if (mask && islands.size) for (let p = 0; p < n; p++) if (islands.has(region[p]!)) mask[p]! |= PROBLEM_BITS.tiny_island;
+  return [...text, ...islands.values()];
+}
+
+/**
+ * Whether a color is close to one of its larger neighbours' colors, or a mix of two of them
+ */
+function blendsIn(labs: number[][], label: number, neighbours: number[]): boolean {
+  const own = labs[label]!;
+  const distances = neighbours.map(l => Math.sqrt(deltaE76Sq(own, labs[l]!)));
+  if (distances.some(d => d < BLEND_DELTA_E)) return true;
+  for (let i = 0; i < neighbours.length; i++) {
+    for (let j = i + 1; j < neighbours.length; j++) {
+      const apart = Math.sqrt(deltaE76Sq(labs[neighbours[i]!]!, labs[neighbours[j]!]!));
+      if (distances[i]! + distances[j]! <= BLEND_SLACK * apart) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Chain same-colored glyphs of similar height that sit side by side on a shared baseline band; lines of two or more
+ * glyphs count as text
+ */
+function textLines(glyphs: Glyph[]): Glyph[][] {
+  const parent = glyphs.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i]!)));
+  for (let i = 0; i < glyphs.length; i++) {
+    const a = glyphs[i]!, ha = a.maxY - a.minY + 1;
+    for (let j = i + 1; j < glyphs.length; j++) {
+      const b = glyphs[j]!, hb = b.maxY - b.minY + 1;
+      if (a.label !== b.label || Math.max(ha, hb) > GLYPH_HEIGHT_RATIO * Math.min(ha, hb)) continue;
+      const overlap = Math.min(a.maxY, b.maxY) - Math.max(a.minY, b.minY) + 1;
+      const gap = Math.max(a.minX, b.minX) - Math.min(a.maxX, b.maxX);
+      if (overlap >= 0.5 * Math.min(ha, hb) && gap <= 1.5 * Math.max(ha, hb)) parent[find(i)] = find(j);
+    }
+  }
+  const lines = new Map<number, Glyph[]>();
+  glyphs.forEach((g, i) => {
+    const root = find(i);
+    const line = lines.get(root);
+    if (line) line.push(g); else lines.set(root, [g]);
+  });
+  return [...lines.values()].filter(line => line.length >= 2);
+}
+
+/**
+ * Edge density per DETAIL_CELL_MM cell; touching dense cells are reported as one area
+ */
+function denseDetail(edgeMask: Uint8Array, width: number, height: number, ppm: number, mask?: Uint8Array): Located[] {
+  const cell = Math.max(16, Math.round(DETAIL_CELL_MM * ppm));
+  const cols = Math.ceil(width / cell), rows = Math.ceil(height / cell);
+  const counts = new Uint32Array(cols * rows);
+  for (let p = 0; p < edgeMask.length; p++) {
+    if (!edgeMask[p]) continue;
+    const x = p % width, y = (p - x) / width;
+    counts[Math.floor(y / cell) * cols + Math.floor(x / cell)]!++;
+  }
+  const dense = new Float32Array(width * height);
+  for (let k = 0; k < counts.length; k++) {
+    const cx = k % cols, cy = (k - cx) / cols;
+    const cw = Math.min(cell, width - cx * cell), ch = Math.min(cell, height - cy * cell);
+    const share = counts[k]! / (cw * ch);
+    // Mark the cell's corners so clustering sees the full cell extent
+    if (share > DENSE_EDGE_SHARE) {
+      dense[cy * cell * width + cx * cell] = share;
+      dense[(cy * cell + ch - 1) * width + cx * cell + cw - 1] = share;
+      if (mask) paintBox(mask, width, { minX: cx * cell, minY: cy * cell, maxX: cx * cell + cw - 1, maxY: cy * cell + ch - 1 }, PROBLEM_BITS.dense_detail);
+    }
+  }
+  return clusterPixels(dense, width, height, cell).map(c =>
+    located('dense_detail', 'warning', `Dense detail (${Math.round(c.mean * 100)}% edges) may fill in on fabric`, c.box, (c.box.maxX - c.box.minX + 1) * (c.box.maxY - c.box.minY + 1))
+  );
+}
+
+/**
+ * Keep the most severe, then largest, located warnings of each code and summarize the rest
+ */
+function capPerCode(list: Located[]): DesignWarning[] {
+  const byCode = new Map<WarningCode, Located[]>();
+  for (const w of list) {
+    const group = byCode.get(w.code);
+    if (group) group.push(w); else byCode.set(w.code, [w]);
+  }
+  const out: DesignWarning[] = [];
+  for (const [code, group] of byCode) {
+    group.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.size - a.size);
+    for (const w of group.slice(0, MAX_PER_CODE)) out.push({ code, severity: w.severity, message: w.message, ...(w.bbox ? { bbox: w.bbox } : {}) });
+    const rest = group.slice(MAX_PER_CODE);
+    if (rest.length) {
+      out.push({ code, severity: rest[0]!.severity, message: `${rest.length} more ${SUMMARY_NOUN[code] ?? code}`, bbox: toWarningBox(rest.map(toBox).reduce(merge)) });
+    }
+  }
+  return out;
+}
+
+function located(code: WarningCode, severity: WarningSeverity, message: string, box: Box, size: number): Located {
+  return { code, severity, message, bbox: toWarningBox(box), size };
+}
+
+function toWarningBox(box: Box): WarningBox {
+  return { x: box.minX, y: box.minY, width: box.maxX - box.minX + 1, height: box.maxY - box.minY + 1 };
+}
+
+function toBox(w: DesignWarning): Box {
+  const b = w.bbox!;
+  return { minX: b.x, minY: b.y, maxX: b.x + b.width - 1, maxY: b.y + b.height - 1 };
+}
+
+function grow(box: Box, x: number, y: number) {
+  if (x < box.minX) box.minX = x;
+  if (x > box.maxX) box.maxX = x;
+  if (y < box.minY) box.minY = y;
+  if (y > box.maxY) box.maxY = y;
+}
+
+function merge(a: Box, b: Box): Box {
+  return { minX: Math.min(a.minX, b.minX), minY: Math.min(a.minY, b.minY), maxX: Math.max(a.maxX, b.maxX), maxY: Math.max(a.maxY, b.maxY) };
 }
@@ -0,0 +1,117 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { isPlainObject, resolveOptions, type RequestOptions } from './options.ts';
+
+export interface Preset {
+  name: string;
+  source: 'bundled' | 'custom';
+  file: string;
+  options: RequestOptions;
+}
+
+// Bundled presets ship with the service; admins can add or override presets with *.json files in PRESETS_DIR
+const BUNDLED_FILE = path.resolve(process.env.PRESETS_FILE || 'presets.json');
+const CUSTOM_DIR = path.resolve(process.env.PRESETS_DIR || 'config/presets');
+const RELOAD_DEBOUNCE_MS = 200;
+
+let presets = new Map<string, Preset>();
+
+export function getPreset(name: string): Preset | undefined {
+  return presets.get(name);
+}
+
+export function listPresets(): Preset[] {
+  return Array.from(presets.values());
+}
+
+/**
+ * (Re)load every preset file. Invalid presets are logged and skipped so one bad entry can't take the rest down.
+ */
+export function loadPresets(): { loaded: number; rejected: Array<{ name: string; file: string; problems: string[] }> } {
+  const next = new Map<string, Preset>();
+  const rejected: Array<{ name: string; file: string; problems: string[] }> = [];
+
+  const files: Array<{ file: string; source: Preset['source'] }> = [{ file: BUNDLED_FILE, source: 'bundled' }];
+  if (fs.existsSync(CUSTOM_DIR)) {
+    for (const entry of fs.readdirSync(CUSTOM_DIR).sort()) {
+      if (entry.endsWith('.json')) files.push({ file: path.join(CUSTOM_DIR, entry), source: 'custom' });
+    }
+  }
+
+  for (const { file, source } of files) {
+    let content: unknown;
+    try {
+      content = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      // Without a bundled file there are just no bundled presets
+      if (source === 'bundled' && !fs.existsSync(file)) continue;
+      rejected.push({ name: path.basename(file), file, problems: [`Unreadable preset file: ${error instanceof Error ? error.message : String(error)}`] });
+      continue;
+    }
+    if (!isPlainObject(content)) {
+      rejected.push({ name: path.basename(file), file, problems: ['Preset file must contain an object of presets'] });
+      continue;
+    }
+    for (const [name, options] of Object.entries(content)) {
+      const resolved = resolveOptions(options);
+      if ('error' in resolved) { rejected.push({ name, file, problems: resolved.error.errors.map(e => e.message) }); continue; }
+      // Later files win, so custom presets override bundled ones of the same name
+      next.set(name, { name, source, file, options: options as RequestOptions });
+    }
+  }
+
+  presets = next;
+  for (const r of rejected) {
+    console.warn(JSON.stringify({ level: 'warn', msg: 'presets.rejected', name: r.name, file: r.file, problems: r.problems }));
+  }
+  console.log(JSON.stringify({ level: 'info', msg: 'presets.loaded', count: next.size, rejected: rejected.length }));
+  return { loaded: next.size, rejected };
+}
+
+/**
+ * Reload presets whenever the bundled file or the custom directory changes. Both are watched by name from their
+ * parent directories, so editors that save by renaming a new file into place, and a custom directory created after
+ * startup, are still picked up; the custom directory's own watch is re-armed whenever it is created or replaced.
+ */
+export function watchPresets(): () => void {
+  let timer: NodeJS.Timeout | null = null;
+  let closed = false;
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => { timer = null; loadPresets(); }, RELOAD_DEBOUNCE_MS);
+  };
+  const watchers = new Map<string, fs.FSWatcher>();
+  const watch = (dir: string, listener: fs.WatchListener<string>) => {
+    watchers.get(dir)?.close();
+    watchers.delete(dir);
+    if (closed || !fs.existsSync(dir)) return;
+    try {
+      watchers.set(dir, fs.watch(dir, listener));
+    } catch (error) {
+      console.warn(JSON.stringify({ level: 'warn', msg: 'presets.watch_failure', dir, error: error instanceof Error ? error.message : String(error) }));
+    }
+  };
+  const watchCustomDir = () => watch(CUSTOM_DIR, schedule);
+
+  const names = new Map<string, string[]>();
+  for (const target of [BUNDLED_FILE, CUSTOM_DIR]) {
+    const parent = path.dirname(target);
+    names.set(parent, [...(names.get(parent) ?? []), path.basename(target)]);
+  }
+  for (const [parent, watched] of names) {
+    watch(parent, (event, name) => {
+      // Some platforms don't report the name; then any change may be ours
+      if (name && !watched.includes(name)) return;
+      if (event === 'rename' && parent === path.dirname(CUSTOM_DIR) && (!name || name === path.basename(CUSTOM_DIR))) watchCustomDir();
+      schedule();
+    });
+  }
+  watchCustomDir();
+
+  return () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+    for (const w of watchers.values()) w.close();
+    watchers.clear();
+  };
+}
@@ -0,0 +1,197 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { LRUCache } from 'lru-cache';
+import { canonicalJson } from './pipeline/stages.ts';
+import { fabricVersion } from './fabrics/library.ts';
+import { getTemplate, templateFabrics, templateVersion } from './mockups/templates.ts';
+import type { EmbroideryMeta, EmbroideryOptions } from './workers/types.ts';
+
+export interface CachedRender {
+  buffer: Buffer;
+  mime: string;
+  meta: EmbroideryMeta;
+  debugArchive?: Buffer;
+}
+
+export type CacheOutcome = 'hit' | 'miss' | 'bypass';
+
+// Bump whenever a pipeline change alters rendered output, so stale entries and client ETags stop matching
+const RENDER_VERSION = 2;
+
+// Memory tier budget in bytes of image, archive and metadata (RESULT_CACHE_MAX_MB, 0 disables caching)
+const MEMORY_BUDGET = Math.max(0, Number(process.env.RESULT_CACHE_MAX_MB ?? 256)) * 1024 * 1024;
+const TTL_MS = Math.max(1, Number(process.env.RESULT_CACHE_TTL_SECONDS) || 60 * 60) * 1000;
+// Optional disk tier: survives restarts and is shared by instances on the same volume
+const DISK_DIR = process.env.RESULT_CACHE_DIR ? path.resolve(process.env.RESULT_CACHE_DIR) : undefined;
+const DISK_BUDGET = Math.max(1, Number(process.env.RESULT_CACHE_DISK_MAX_MB) || 2048) * 1024 * 1024;
+// Seconds clients may reuse a response (Cache-Control max-age)
+export const RESULT_MAX_AGE_SECONDS = Math.max(0, Number(process.env.RESULT_CACHE_MAX_AGE ?? 3600));
+
+const memory = MEMORY_BUDGET > 0
+  ? new LRUCache<string, CachedRender>({
+    maxSize: MEMORY_BUDGET,
+    sizeCalculation: entry => Math.max(1, entry.buffer.length + (entry.debugArchive?.length ?? 0) + 4096),
+    ttl: TTL_MS
+  })
+  : undefined;
+// Identical requests in flight share one render
+const inflight = new Map<string, Promise<CachedRender>>();
+const counters = { memoryHits: 0, diskHits: 0, inflightHits: 0, misses: 0, bypasses: 0, notModified: 0 };
+let pruning = false;
+
+/**
+ * Content address of a render: the image bytes, their type, the fully resolved options with keys sorted (so the same
+ * request hashes the same however its JSON was written) and the versions of the named files it reads
+ */
+export function resultKey(route: string, image: Buffer, mime: string, options: unknown, assets: string): string {
+  return createHash('sha256')
+    .update(`${route}\n${RENDER_VERSION}\n${mime}\n${canonicalJson(options)}\n${assets}\n`)
+    .update(image)
+    .digest('hex');
+}
+
+/**
+ * Versions of the files a render reads besides the upload: an uploaded background fabric, or a mockup template and
+ * the fabrics it names. Replacing one changes the key, so neither stale renders nor 304s outlive it.
+ */
+export function assetVersions(options: EmbroideryOptions): string {
+  const template = options.mockup ? getTemplate(options.mockup.template) : undefined;
+  if (template) return [templateVersion(template.name), ...templateFabrics(template).map(fabricVersion)].join(',');
+  return options.background?.type === 'fabric' && options.background.name ? fabricVersion(options.background.name) : '';
+}
+
+/**
+ * Strong ETag per representation: the image, JSON sidecar and multipart shapes of one render differ
+ */
+export function resultETag(key: string, representation: string): string {
+  return `"${key.slice(0, 40)}${representation === 'image' ? '' : `-${representation}`}"`;
+}
+
+/**
+ * If-None-Match check; `*` matches, weak validators compare by their opaque tag
+ */
+export function etagMatches(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  return header.split(',').map(t => t.trim().replace(/^W\//, '')).some(t => t === '*' || t === etag);
+}
+
+export function countNotModified(): void {
+  counters.notModified++;
+}
+
+/**
+ * Cached render for `key`, else the result of `render` (which is then cached). With `bypass` the cache isn't read,
+ * but the fresh result still replaces the stored one.
+ */
+export async function cachedRender(key: string, render: () => Promise<CachedRender>, bypass = false): Promise<{ result: CachedRender; outcome: CacheOutcome }> {
+  if (!memory) return { result: await render(), outcome: bypass ? 'bypass' : 'miss' };
+
+  if (!bypass) {
+    const hit = memory.get(key);
+    if (hit) { counters.memoryHits++; return { result: hit, outcome: 'hit' }; }
+    const fromDisk = await readDisk(key);
+    if (fromDisk) {
+      counters.diskHits++;
+      memory.set(key, fromDisk);
+      return { result: fromDisk, outcome: 'hit' };
+    }
+    const pending = inflight.get(key);
+    if (pending) { counters.inflightHits++; return { result: await pending, outcome: 'hit' }; }
+  }
+
+  if (bypass) counters.bypasses++;
+  else counters.misses++;
+  const pending = render();
+  inflight.set(key, pending);
+  try {
+    const result = await pending;
+    memory.set(key, result);
+    void writeDisk(key, result);
+    return { result, outcome: bypass ? 'bypass' : 'miss' };
+  } finally {
+    if (inflight.get(key) === pending) inflight.delete(key);
+  }
+}
+
+export function resultCacheStats() {
+  return {
+    enabled: memory !== undefined,
+    ...counters,
+    entries: memory?.size ?? 0,
+    sizeBytes: memory?.calculatedSize ?? 0,
+    budgetBytes: MEMORY_BUDGET,
+    disk: DISK_DIR ? { dir: DISK_DIR, budgetBytes: DISK_BUDGET } : null
+  };
+}
+
+// Disk entries: `<key>.bin` holds the image then the debug archive, `<key>.json` the rest; the JSON is written last
+// so its presence marks a complete entry
+interface DiskHeader {
+  mime: string;
+  meta: EmbroideryMeta;
+  bufferSize: number;
+  archiveSize: number;
+  storedAt: number;
+}
+
+async function readDisk(key: string): Promise<CachedRender | undefined> {
+  if (!DISK_DIR) return undefined;
+  try {
+    const header = JSON.parse(await fs.promises.readFile(path.join(DISK_DIR, `${key}.json`), 'utf8')) as DiskHeader;
+    if (Date.now() - header.storedAt > TTL_MS) return undefined;
+    const data = await fs.promises.readFile(path.join(DISK_DIR, `${key}.bin`));
+    if (data.length !== header.bufferSize + header.archiveSize) return undefined;
+    return {
+      buffer: data.subarray(0, header.bufferSize),
+      mime: header.mime,
+      meta: header.meta,
+      ...(header.archiveSize ? { debugArchive: data.subarray(header.bufferSize) } : {})
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeDisk(key: string, result: CachedRender): Promise<void> {
+  if (!DISK_DIR) return;
+  try {
+    await fs.promises.mkdir(DISK_DIR, { recursive: true });
+    const tmp = `.${key}.${process.pid}.tmp`;
+    await fs.promises.writeFile(path.join(DISK_DIR, tmp), Buffer.concat([result.buffer, result.debugArchive ?? Buffer.alloc(0)]));
+    await fs.promises.rename(path.join(DISK_DIR, tmp), path.join(DISK_DIR, `${key}.bin`));
+    const header: DiskHeader = { mime: result.mime, meta: result.meta, bufferSize: result.buffer.length, archiveSize: result.debugArchive?.length ?? 0, storedAt: Date.now() };
+    await fs.promises.writeFile(path.join(DISK_DIR, `${key}.json`), JSON.stringify(header));
+    await pruneDisk();
+  } catch (error) {
+    console.error(JSON.stringify({ level: 'error', msg: 'result_cache.write_failure', key, error: error instanceof Error ? error.message : String(error) }));
+  }
+}
+
+/**
+ * Evict the least recently written entries once the disk tier exceeds its budget
+ */
+async function pruneDisk(): Promise<void> {
+  if (!DISK_DIR || pruning) return;
+  pruning = true;
+  try {
+    const entries: Array<{ key: string; size: number; mtime: number }> = [];
+    let total = 0;
+    for (const name of await fs.promises.readdir(DISK_DIR)) {
+      if (!name.endsWith('.bin') || name.startsWith('.')) continue;
+      const stat = await fs.promises.stat(path.join(DISK_DIR, name)).catch(() => undefined);
+      if (!stat) continue;
+      entries.push({ key: name.slice(0, -4), size: stat.size, mtime: stat.mtimeMs });
+      total += stat.size;
+    }
+    entries.sort((a, b) => a.mtime - b.mtime);
+    for (const entry of entries) {
+      if (total <= DISK_BUDGET) break;
+      await fs.promises.rm(path.join(DISK_DIR, `${entry.key}.json`), { force: true });
+      await fs.promises.rm(path.join(DISK_DIR, `${entry.key}.bin`), { force: true });
+      total -= entry.size;
+    }
+  } finally {
+    pruning = false;
+  }
+}
@@ -6,6 +6,20 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import os from 'node:os';
 import sharp from 'sharp';
+import { createHash } from 'node:crypto';
+import { isStitchFormat, STITCH_FORMATS } from './formats/stitchFile.ts';
+import { writeZip, type ZipEntry } from './formats/zip.ts';
+import { resolveOptions, deepMerge, parseOptionsJson, optionsError, formatClamped, type ClampNotice, type OptionsError } from './options.ts';
+import { buildOpenApiDocument } from './openapi.ts';
+import { OUTPUT_MIME, type OutputFormat } from './pipeline/output.ts';
+import { loadPresets, watchPresets, getPreset, listPresets } from './presets.ts';
+import { listFabrics, isValidFabricName, saveUploadedFabric } from './fabrics/library.ts';
+import { listTemplates } from './mockups/templates.ts';
+import { assetVersions, cachedRender, countNotModified, etagMatches, resultCacheStats, resultETag, resultKey, RESULT_MAX_AGE_SECONDS } from './resultCache.ts';
+import { connectStageCache, stageCacheStats } from './stageCache.ts';
+import { createJobStore } from './jobs/store.ts';
+import { createJobQueue, isFinished, isValidWebhook, jobView } from './jobs/queue.ts';
+import type { EmbroideryOptions, EmbroideryMeta, WorkerPayload, WorkerResult, BatchPayload, BatchResult, StitchPayload, StitchResult, EstimatePayload, EstimateResult, AnalyzePayload, AnalyzeResult } from './workers/types.ts';
 
 // Sharp/libvips global tuning
 try {
@@ -15,45 +29,8 @@ try {
 } catch {}
 
 // Types
-interface EmbroideryOptions {
-  maxColors?: number;
-  threadThickness?: number;
-  preserveTransparency?: boolean;
-  hatch?: 'none' | 'diagonal' | 'cross';
-  background?: {
-    type: 'color' | 'fabric';
-    hex?: string;
-    name?: string;
-  } | null;
-  style?: {
-    orientation?: 'binned-8' | 'lic';
-    edges?: 'canny' | 'xdog';
-    mode?: 'photo' | 'logo';
-  };
-  lighting?: { sheen?: number };
-  border?: { stitch?: boolean; width?: number };
-  density?: { scale?: number };
-  grain?: { randomness?: number };
-}
-
-interface WorkerPayload {
-  image: Buffer;
-  mime: string;
-  options: EmbroideryOptions;
-}
-
-interface WorkerResult {
-  buffer: Buffer;
-  mime: string;
-  meta?: {
-    processingTime: number;
-    paletteSize: number;
-    originalSize: { width: number; height: number };
-    finalSize: { width: number; height: number };
-    palette?: Array<{ r:number; g:number; b:number; a:number }>;
-    warnings?: string[];
-  };
-}
+type ResponseMode = 'image' | 'json' | 'multipart';
+type BatchItem = { image: number; variant: number; filename: string } & ({ result: WorkerResult } | { error: string });
 
 // Initialize Express app
 const app = express();
@@ -62,10 +39,20 @@ const PORT = process.env.PORT || 8080;
 // Configure CORS
 app.use(cors({
   origin: true,
-  methods: ['GET', 'POST'],
-  allowedHeaders: ['Content-Type']
+  methods: ['GET', 'POST', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'If-None-Match', 'Cache-Control', 'X-Cache-Bypass'],
+  exposedHeaders: ['ETag', 'X-Cache']
 }));
 
+// Accept only image files
+const imageFileFilter: multer.Options['fileFilter'] = (req, file, cb) => {
+  if (file.mimetype.startsWith('image/')) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only image files are allowed'));
+  }
+};
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -73,16 +60,27 @@ const upload = multer({
     fileSize: 8 * 1024 * 1024, // 8MB limit
     files: 1
   },
-  fileFilter: (req, file, cb) => {
-    // Accept only image files
-    if (file.mimetype.startsWith('image/')) {
-      cb(null, true);
-    } else {
-      cb(new Error('Only image files are allowed'));
-    }
-  }
+  fileFilter: imageFileFilter
 });
 
+// Batch renders: every image × every option set
+const BATCH_MAX_IMAGES = 10;
+const BATCH_MAX_VARIANTS = 16;
+const BATCH_MAX_ITEMS = 40;
+
+const batchUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 8 * 1024 * 1024,
+    files: BATCH_MAX_IMAGES
+  },
+  fileFilter: imageFileFilter
+});
+
+// Load presets and keep them in sync with their files
+loadPresets();
+const stopWatchingPresets = watchPresets();
+
 // Initialize worker pool
 const piscina = new Piscina({
   filename: new URL('./workers/bootstrap.cjs', import.meta.url).pathname,
@@ -92,6 +90,220 @@ const piscina = new Piscina({
   execArgv: ['--import', 'tsx']
 });
 
+// Asynchronous render jobs: they queue here rather than in the pool, at most one per worker thread at a time
+const jobQueue = createJobQueue(piscina, createJobStore(), {
+  concurrency: piscina.maxThreads,
+  maxPending: Math.max(1, Number(process.env.JOBS_MAX_PENDING) || 100)
+});
+jobQueue.start().catch(error => console.error('Error starting job queue:', error));
+
+// Seconds a client is asked to wait when the pool queue is full
+const BUSY_RETRY_AFTER_SECONDS = 5;
+
+/**
+ * Parse the `options` form field, layer it over the selected preset and resolve defaults
+ */
+function parseOptions(rawOptions: string | undefined, presetName?: string): { options: EmbroideryOptions; clamped: ClampNotice[] } | { error: OptionsError } {
+  const parsed = parseOptionsJson(rawOptions);
+  if ('error' in parsed) return parsed;
+  return resolveWithPreset(parsed.raw, presetName);
+}
+
+function resolveWithPreset(raw: unknown, presetName?: string): { options: EmbroideryOptions; clamped: ClampNotice[] } | { error: OptionsError } {
+  if (!presetName) return resolveOptions(raw);
+
+  const preset = getPreset(presetName);
+  if (!preset) {
+    const available = listPresets().map(p => p.name).join(', ');
+    return { error: optionsError([{ path: 'preset', code: 'unknown_preset', message: `preset must be one of: ${available}` }]) };
+  }
+  return resolveOptions(deepMerge(preset.options, raw));
+}
+
+/**
+ * Batch `options` field: one options object for every image, or an array of option sets (variants). Problems are
+ * reported with the variant index in their path, e.g. `[2].maxColors`.
+ */
+function parseBatchOptions(rawOptions: string | undefined, presetName?: string): { variants: EmbroideryOptions[]; clamped: ClampNotice[] } | { error: OptionsError } {
+  const parsed = parseOptionsJson(rawOptions);
+  if ('error' in parsed) return parsed;
+  if (!Array.isArray(parsed.raw)) {
+    const single = resolveWithPreset(parsed.raw, presetName);
+    return 'error' in single ? single : { variants: [single.options], clamped: single.clamped };
+  }
+  if (!parsed.raw.length || parsed.raw.length > BATCH_MAX_VARIANTS) {
+    return { error: optionsError([{ path: 'options', code: 'out_of_range', message: `options must list 1-${BATCH_MAX_VARIANTS} option sets` }]) };
+  }
+
+  const variants: EmbroideryOptions[] = [];
+  const clamped: ClampNotice[] = [];
+  const errors: OptionsError['errors'] = [];
+  parsed.raw.forEach((raw, i) => {
+    const resolved = resolveWithPreset(raw, presetName);
+    if ('error' in resolved) {
+      errors.push(...resolved.error.errors.map(e => ({ ...e, path: e.path === 'preset' ? e.path : `[${i}]${e.path ? `.${e.path}` : ''}` })));
+      return;
+    }
+    variants.push(resolved.options);
+    clamped.push(...resolved.clamped.map(c => ({ ...c, path: `[${i}].${c.path}` })));
+  });
+  // An unknown preset fails every variant the same way; report it once
+  const unique = errors.filter((e, i) => e.path !== 'preset' || errors.findIndex(o => o.path === 'preset') === i);
+  return unique.length ? { error: optionsError(unique) } : { variants, clamped };
+}
+
+/**
+ * Tell the client which out-of-range values were clamped rather than rejected
+ */
+function setClampedHeader(res: express.Response, clamped: ClampNotice[]) {
+  if (clamped.length) res.setHeader('X-Clamped-Options', formatClamped(clamped));
+}
+
+/**
+ * Preset name from the query string or the multipart body
+ */
+function presetName(req: express.Request): string | undefined {
+  const value = req.query.preset ?? req.body?.preset;
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Pick the response shape: explicit `?response=` wins, otherwise negotiate on the Accept header (image by default)
+ */
+function responseMode(req: express.Request): ResponseMode {
+  const explicit = String(req.query.response ?? '').toLowerCase();
+  if (explicit === 'json' || explicit === 'multipart' || explicit === 'image') return explicit;
+  const accepted = req.accepts(['image/*', 'application/json', 'multipart/mixed']);
+  if (accepted === 'application/json') return 'json';
+  if (accepted === 'multipart/mixed') return 'multipart';
+  return 'image';
+}
+
+/**
+ * Image format the client explicitly asked for in Accept (wildcards like image/* don't count), honoring q-values
+ */
+function acceptedImageFormat(req: express.Request): OutputFormat | undefined {
+  const header = String(req.headers.accept ?? '').toLowerCase();
+  const listed = (Object.keys(OUTPUT_MIME) as OutputFormat[]).filter(f => header.includes(OUTPUT_MIME[f]));
+  if (!listed.length) return undefined;
+  const accepted = req.accepts(listed.map(f => OUTPUT_MIME[f]));
+  return accepted ? listed.find(f => OUTPUT_MIME[f] === accepted) : undefined;
+}
+
+/**
+ * multipart/mixed body with the image part first and the metadata JSON part second
+ */
+function multipartBody(image: Buffer, mime: string, meta: EmbroideryMeta | AnalyzeResult['meta']): { body: Buffer; boundary: string } {
+  const boundary = `embroidery-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  const body = Buffer.concat([
+    Buffer.from(`--${boundary}\r\nContent-Type: ${mime}\r\nContent-Disposition: inline; name="image"\r\n\r\n`),
+    image,
+    Buffer.from(`\r\n--${boundary}\r\nContent-Type: application/json\r\nContent-Disposition: inline; name="meta"\r\n\r\n`),
+    Buffer.from(JSON.stringify(meta)),
+    Buffer.from(`\r\n--${boundary}--\r\n`)
+  ]);
+  return { body, boundary };
+}
+
+/**
+ * Skip the result cache on `X-Cache-Bypass: 1` (or `true`) or `Cache-Control: no-cache` / `no-store`
+ */
+function bypassCache(req: express.Request): boolean {
+  const bypass = String(req.headers['x-cache-bypass'] ?? '').toLowerCase();
+  if (bypass === '1' || bypass === 'true') return true;
+  return /\bno-(cache|store)\b/i.test(String(req.headers['cache-control'] ?? ''));
+}
+
+/**
+ * Run a render task connected to the stage cache, so it can reuse stage outputs of earlier renders on any thread
+ */
+function runRender<T>(payload: WorkerPayload | BatchPayload, name?: string): Promise<T> {
+  const connection = connectStageCache();
+  if (!connection) return piscina.run(payload, name ? { name } : {});
+  return piscina.run({ ...payload, stageCache: connection.port }, { ...(name ? { name } : {}), transferList: [connection.port] })
+    .catch((error: unknown) => {
+      connection.release();
+      throw error;
+    });
+}
+
+/**
+ * Piscina rejects new tasks with this once `maxQueue` tasks are waiting
+ */
+function isPoolSaturated(error: unknown): boolean {
+  return error instanceof Error && error.message === 'Task queue is at limit';
+}
+
+function sendBusy(res: express.Response) {
+  res.setHeader('Retry-After', String(BUSY_RETRY_AFTER_SECONDS));
+  return res.status(503).json({
+    error: 'Server busy',
+    message: 'Too many renders are queued; retry later or submit the render to POST /jobs'
+  });
+}
+
+/**
+ * Send a render as the image, JSON sidecar or multipart/mixed; the debug layer archive replaces the image
+ */
+function sendRender(req: express.Request, res: express.Response, result: { buffer: Buffer; mime: string; meta: EmbroideryMeta; debugArchive?: Buffer }) {
+  res.setHeader('X-Palette-Size', String(result.meta.paletteSize));
+  res.setHeader('X-Original-Size', `${result.meta.originalSize.width}x${result.meta.originalSize.height}`);
+  res.setHeader('X-Final-Size', `${result.meta.finalSize.width}x${result.meta.finalSize.height}`);
+  res.setHeader('X-Physical-Size', `${result.meta.physicalSize.widthMm}x${result.meta.physicalSize.heightMm}mm@${result.meta.physicalSize.dpi}dpi`);
+
+  if (result.meta.warnings.length) res.setHeader('X-Warnings', result.meta.warnings.map(w => w.message).join(','));
+
+  // debug.layers: the layer archive replaces the image (it contains the image too)
+  if (result.debugArchive) {
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', 'attachment; filename="embroidery-layers.zip"');
+    return res.send(Buffer.from(result.debugArchive));
+  }
+
+  const image = Buffer.from(result.buffer);
+  const mode = responseMode(req);
+  res.vary('Accept');
+
+  // JSON sidecar: base64 image plus the full pipeline metadata
+  if (mode === 'json') {
+    return res.json({ image: image.toString('base64'), mime: result.mime, meta: result.meta });
+  }
+
+  if (mode === 'multipart') {
+    const { body, boundary } = multipartBody(image, result.mime, result.meta);
+    res.setHeader('Content-Type', `multipart/mixed; boundary=${boundary}`);
+    return res.send(body);
+  }
+
+  // Send processed image
+  res.setHeader('Content-Type', result.mime);
+  return res.send(image);
+}
+
+function fileExtension(mime: string): string {
+  if (mime === 'application/zip') return 'zip';
+  const format = (Object.keys(OUTPUT_MIME) as OutputFormat[]).find(f => OUTPUT_MIME[f] === mime);
+  return format === 'jpeg' ? 'jpg' : format ?? 'bin';
+}
+
+/**
+ * Batch output: one file per rendered item (the layer ZIP for debug.layers variants) plus manifest.json with every
+ * item's metadata or error
+ */
+function batchFiles(items: BatchItem[], processingTime: number): { files: Array<ZipEntry & { mime: string }>; manifest: Buffer } {
+  const files: Array<ZipEntry & { mime: string }> = [];
+  const manifest = items.map(item => {
+    const base = { image: item.image, filename: item.filename, variant: item.variant };
+    if ('error' in item) return { ...base, error: item.error };
+    const data = Buffer.from(item.result.debugArchive ?? item.result.buffer);
+    const mime = item.result.debugArchive ? 'application/zip' : item.result.mime;
+    const name = `image-${item.image}-variant-${item.variant}.${fileExtension(mime)}`;
+    files.push({ name, data, mime });
+    return { ...base, file: name, mime, meta: item.result.meta };
+  });
+  return { files, manifest: Buffer.from(JSON.stringify({ processingTime, items: manifest }, null, 2)) };
+}
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({
@@ -104,10 +316,75 @@ app.get('/health', (req, res) => {
       queueSize: piscina.queueSize,
       completed: piscina.completed,
       duration: piscina.duration
-    }
+    },
+    resultCache: resultCacheStats(),
+    stageCache: stageCacheStats(),
+    jobs: jobQueue.stats()
   });
 });
 
+// OpenAPI document generated from the option schema
+app.get('/openapi.json', (req, res) => {
+  res.json(buildOpenApiDocument());
+});
+
+// Preset catalogue (bundled presets.json plus admin presets from PRESETS_DIR)
+app.get('/presets', (req, res) => {
+  res.json({
+    presets: listPresets().map(p => ({ name: p.name, source: p.source, options: p.options }))
+  });
+});
+
+// Fabric library: procedural weaves plus uploaded fabric photos
+app.get('/fabrics', (req, res) => {
+  res.json({ fabrics: listFabrics() });
+});
+
+// Product mockup templates for options.mockup
+app.get('/mockups', (req, res) => {
+  res.json({
+    mockups: listTemplates().map(t => ({
+      name: t.name,
+      description: t.description,
+      size: { width: t.width, height: t.height },
+      pixelsPerMm: t.pixelsPerMm,
+      placement: { widthMm: t.placement.widthMm, heightMm: t.placement.heightMm }
+    }))
+  });
+});
+
+app.post('/fabrics', upload.single('image'), async (req, res) => {
+  try {
+    const name = String(req.body?.name ?? '');
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'No image file provided',
+        message: 'Please upload a fabric photo using the "image" field'
+      });
+    }
+    if (!isValidFabricName(name)) {
+      return res.status(400).json({
+        error: 'Invalid fabric name',
+        message: 'name must be 1-40 lowercase letters, digits or dashes'
+      });
+    }
+    if (listFabrics().some(f => f.name === name && f.source === 'procedural')) {
+      return res.status(409).json({
+        error: 'Fabric exists',
+        message: `"${name}" is a built-in fabric`
+      });
+    }
+    const fabric = await saveUploadedFabric(name, req.file.buffer);
+    return res.status(201).json(fabric);
+  } catch (error: any) {
+    console.error('Error saving fabric:', error);
+    return res.status(400).json({
+      error: 'Invalid fabric image',
+      message: process.env.NODE_ENV === 'development' ? error.message : 'The uploaded image could not be decoded'
+    });
+  }
+});
+
 // Main embroidery filter endpoint
 app.post('/filter/embroidery', upload.single('image'), async (req, res) => {
   try {
@@ -120,52 +397,14 @@ app.post('/filter/embroidery', upload.single('image'), async (req, res) => {
     }
 
     // Parse and validate options
-    const raw: EmbroideryOptions = JSON.parse(req.body?.options || '{}');
-    
-    const options: EmbroideryOptions = {
-      maxColors: Math.min(12, Math.max(2, raw.maxColors ?? 8)),
-      threadThickness: Math.max(1, Math.min(10, raw.threadThickness ?? 3)),
-      preserveTransparency: raw.preserveTransparency ?? true,
-      hatch: (raw.hatch as any) ?? 'diagonal',
-      background: raw.background ?? null,
-      style: { orientation: raw.style?.orientation ?? 'binned-8', edges: raw.style?.edges ?? 'canny', mode: raw.style?.mode ?? 'photo' },
-      lighting: { sheen: raw.lighting?.sheen ?? 0.25 },
-      border: { stitch: raw.border?.stitch ?? true, width: raw.border?.width ?? (raw.threadThickness ?? 3) },
-      density: { scale: raw.density?.scale ?? 1.0 },
-      grain: { randomness: raw.grain?.randomness ?? 0.15 }
-    };
+    const parsed = parseOptions(req.body?.options, presetName(req));
+    if ('error' in parsed) return res.status(400).json(parsed.error);
+    let options = parsed.options;
+    setClampedHeader(res, parsed.clamped);
 
-    // Validate hatch option
-    if (!['none', 'diagonal', 'cross'].includes(options.hatch!)) {
-      return res.status(400).json({
-        error: 'Invalid hatch option',
-        message: 'hatch must be one of: none, diagonal, cross'
-      });
-    }
-
-    // Validate background configuration
-    if (options.background) {
-      if (!['color', 'fabric'].includes(options.background.type)) {
-        return res.status(400).json({
-          error: 'Invalid background type',
-          message: 'background.type must be "color" or "fabric"'
-        });
-      }
-      
-      if (options.background.type === 'color' && !options.background.hex) {
-        return res.status(400).json({
-          error: 'Missing background color',
-          message: 'background.hex is required when background.type is "color"'
-        });
-      }
-      
-      if (options.background.type === 'fabric' && !options.background.name) {
-        return res.status(400).json({
-          error: 'Missing fabric name',
-          message: 'background.name is required when background.type is "fabric"'
-        });
-      }
-    }
+    // output.format "auto" defers to an explicit image type in Accept before falling back to the input format
+    const negotiated = (options.output?.format ?? 'auto') === 'auto' ? acceptedImageFormat(req) : undefined;
+    if (negotiated) options = { ...options, output: { ...options.output, format: negotiated } };
 
     // Prepare worker payload
     const payload: WorkerPayload = {
@@ -174,25 +413,36 @@ app.post('/filter/embroidery', upload.single('image'), async (req, res) => {
       options: options
     };
 
-    // Process image in worker thread
+    // Renders are deterministic (the seed defaults to a hash of the image), so the ETag is known before rendering.
+    // It is only sent with a 304 or a successful render, never with an error.
+    const bypass = bypassCache(req);
+    const key = resultKey('embroidery', req.file.buffer, req.file.mimetype, options, assetVersions(options));
+    const etag = resultETag(key, options.debug?.layers ? 'zip' : responseMode(req));
+    const setValidators = () => {
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', `private, max-age=${RESULT_MAX_AGE_SECONDS}`);
+    };
+    res.vary('Accept');
+    if (!bypass && etagMatches(req.headers['if-none-match'], etag)) {
+      countNotModified();
+      setValidators();
+      return res.status(304).end();
+    }
+
+    // Process image in worker thread, unless the same upload and options were rendered before
     const startTime = Date.now();
-    const result: WorkerResult = await piscina.run(payload);
+    const { result, outcome } = await cachedRender(key, () => runRender<WorkerResult>(payload), bypass);
     const processingTime = Date.now() - startTime;
 
     // Set response headers
-    res.setHeader('Content-Type', result.mime);
     res.setHeader('X-Processing-Time', String(processingTime));
-    res.setHeader('X-Palette-Size', String(result.meta?.paletteSize || 0));
-    res.setHeader('X-Original-Size', `${result.meta?.originalSize?.width}x${result.meta?.originalSize?.height}`);
-    res.setHeader('X-Final-Size', `${result.meta?.finalSize?.width}x${result.meta?.finalSize?.height}`);
-    
-    if (result.meta?.warnings?.length) res.setHeader('X-Warnings', result.meta.warnings.join(','));
-
-    // Send processed image
-    return res.send(Buffer.from(result.buffer));
+    res.setHeader('X-Cache', outcome.toUpperCase());
+    setValidators();
+    return sendRender(req, res, result);
 
   } catch (error: any) {
     console.error('Error processing embroidery filter:', error);
+    if (isPoolSaturated(error)) return sendBusy(res);
     
     // Handle specific error types
     if (error.message?.includes('Only image files are allowed')) {
@@ -217,6 +467,348 @@ app.post('/filter/embroidery', upload.single('image'), async (req, res) => {
   }
 });
 
+// Batch render: every uploaded image with every option set, analysis stages shared between variants of an image
+app.post('/filter/embroidery/batch', batchUpload.array('images', BATCH_MAX_IMAGES), async (req, res) => {
+  try {
+    const uploads = (req.files ?? []) as Express.Multer.File[];
+    if (!uploads.length) {
+      return res.status(400).json({
+        error: 'No image file provided',
+        message: 'Please upload one or more image files using the "images" field'
+      });
+    }
+
+    const parsed = parseBatchOptions(req.body?.options, presetName(req));
+    if ('error' in parsed) return res.status(400).json(parsed.error);
+    setClampedHeader(res, parsed.clamped);
+
+    const { variants } = parsed;
+    if (uploads.length * variants.length > BATCH_MAX_ITEMS) {
+      return res.status(400).json({
+        error: 'Batch too large',
+        message: `images × option sets must be at most ${BATCH_MAX_ITEMS} (got ${uploads.length} × ${variants.length})`
+      });
+    }
+
+    // Identical uploads render once; each distinct image is one worker task so its variants share analysis stages
+    const groups = new Map<string, number[]>();
+    uploads.forEach((file, i) => {
+      const key = createHash('sha256').update(file.mimetype).update(file.buffer).digest('hex');
+      groups.set(key, [...(groups.get(key) ?? []), i]);
+    });
+
+    const startTime = Date.now();
+    const tasks = Array.from(groups.values(), indices => {
+      const file = uploads[indices[0]!]!;
+      const payload: BatchPayload = { image: file.buffer, mime: file.mimetype, variants };
+      return runRender<BatchResult>(payload, 'runBatch');
+    });
+    const settled = await Promise.allSettled(tasks);
+    const processingTime = Date.now() - startTime;
+
+    const saturated = settled.find(s => s.status === 'rejected' && isPoolSaturated(s.reason));
+    if (saturated) return sendBusy(res);
+
+    const items: BatchItem[] = [];
+    Array.from(groups.values()).forEach((indices, g) => {
+      const outcome = settled[g]!;
+      for (const image of indices) {
+        variants.forEach((_, variant) => {
+          const base = { image, variant, filename: uploads[image]!.originalname };
+          if (outcome.status === 'rejected') items.push({ ...base, error: outcome.reason?.message ?? String(outcome.reason) });
+          else items.push({ ...base, ...outcome.value.items[variant]! });
+        });
+      }
+    });
+    items.sort((a, b) => a.image - b.image || a.variant - b.variant);
+
+    const { files, manifest } = batchFiles(items, processingTime);
+    res.setHeader('X-Processing-Time', String(processingTime));
+    res.setHeader('X-Batch-Items', String(items.length));
+    res.setHeader('X-Batch-Errors', String(items.filter(item => 'error' in item).length));
+    res.vary('Accept');
+
+    const explicit = String(req.query.response ?? '').toLowerCase();
+    const multipart = explicit === 'multipart' || (explicit !== 'zip' && req.accepts(['application/zip', 'multipart/mixed']) === 'multipart/mixed');
+    if (multipart) {
+      const boundary = `embroidery-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+      const parts = files.flatMap(file => [
+        Buffer.from(`--${boundary}\r\nContent-Type: ${file.mime}\r\nContent-Disposition: attachment; name="${file.name}"; filename="${file.name}"\r\n\r\n`),
+        file.data,
+        Buffer.from('\r\n')
+      ]);
+      const body = Buffer.concat([
+        ...parts,
+        Buffer.from(`--${boundary}\r\nContent-Type: application/json\r\nContent-Disposition: inline; name="manifest"\r\n\r\n`),
+        manifest,
+        Buffer.from(`\r\n--${boundary}--\r\n`)
+      ]);
+      res.setHeader('Content-Type', `multipart/mixed; boundary=${boundary}`);
+      return res.send(body);
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', 'attachment; filename="embroidery-batch.zip"');
+    return res.send(writeZip([...files, { name: 'manifest.json', data: manifest }]));
+
+  } catch (error: any) {
+    console.error('Error processing embroidery batch:', error);
+    return res.status(500).json({
+      error: 'Processing failed',
+      message: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Machine-embroidery stitch file export (DST/EXP/PES)
+app.post('/filter/embroidery/stitches', upload.single('image'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'No image file provided',
+        message: 'Please upload an image file using the "image" field'
+      });
+    }
+
+    const format = String(req.query.format ?? 'dst').toLowerCase();
+    if (!isStitchFormat(format)) {
+      return res.status(400).json({
+        error: 'Invalid stitch format',
+        message: `format must be one of: ${Object.keys(STITCH_FORMATS).join(', ')}`
+      });
+    }
+
+    const parsed = parseOptions(req.body?.options, presetName(req));
+    if ('error' in parsed) return res.status(400).json(parsed.error);
+    setClampedHeader(res, parsed.clamped);
+
+    const payload: StitchPayload = {
+      image: req.file.buffer,
+      mime: req.file.mimetype,
+      format,
+      options: parsed.options
+    };
+
+    const startTime = Date.now();
+    const result: StitchResult = await piscina.run(payload, { name: 'runStitches' });
+    const processingTime = Date.now() - startTime;
+
+    res.setHeader('Content-Type', result.mime);
+    res.setHeader('Content-Disposition', `attachment; filename="embroidery.${result.extension}"`);
+    res.setHeader('X-Processing-Time', String(processingTime));
+    res.setHeader('X-Stitch-Count', String(result.meta.stitchCount));
+    res.setHeader('X-Color-Changes', String(result.meta.colorChanges));
+    res.setHeader('X-Physical-Size', `${result.meta.physicalSize.widthMm}x${result.meta.physicalSize.heightMm}mm@${result.meta.physicalSize.dpi}dpi`);
+
+    return res.send(Buffer.from(result.buffer));
+
+  } catch (error: any) {
+    console.error('Error exporting stitch file:', error);
+    if (isPoolSaturated(error)) return sendBusy(res);
+    return res.status(500).json({
+      error: 'Processing failed',
+      message: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Stitch count, thread usage and run-time estimate; skips texture generation and compositing
+app.post('/filter/embroidery/estimate', upload.single('image'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'No image file provided',
+        message: 'Please upload an image file using the "image" field'
+      });
+    }
+
+    const parsed = parseOptions(req.body?.options, presetName(req));
+    if ('error' in parsed) return res.status(400).json(parsed.error);
+    setClampedHeader(res, parsed.clamped);
+
+    const payload: EstimatePayload = {
+      image: req.file.buffer,
+      mime: req.file.mimetype,
+      options: parsed.options
+    };
+
+    const startTime = Date.now();
+    const result: EstimateResult = await piscina.run(payload, { name: 'runEstimate' });
+    res.setHeader('X-Processing-Time', String(Date.now() - startTime));
+    res.setHeader('X-Stitch-Count', String(result.estimate.total));
+
+    return res.json(result);
+
+  } catch (error: any) {
+    console.error('Error estimating embroidery:', error);
+    if (isPoolSaturated(error)) return sendBusy(res);
+    return res.status(500).json({
+      error: 'Processing failed',
+      message: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Problem-area overlay for design review: the input with suitability problems highlighted by type
+app.post('/filter/embroidery/analyze', upload.single('image'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'No image file provided',
+        message: 'Please upload an image file using the "image" field'
+      });
+    }
+
+    const parsed = parseOptions(req.body?.options, presetName(req));
+    if ('error' in parsed) return res.status(400).json(parsed.error);
+    setClampedHeader(res, parsed.clamped);
+
+    const payload: AnalyzePayload = {
+      image: req.file.buffer,
+      mime: req.file.mimetype,
+      options: parsed.options
+    };
+
+    const startTime = Date.now();
+    const result: AnalyzeResult = await piscina.run(payload, { name: 'runAnalyze' });
+    res.setHeader('X-Processing-Time', String(Date.now() - startTime));
+    res.setHeader('X-Physical-Size', `${result.meta.physicalSize.widthMm}x${result.meta.physicalSize.heightMm}mm@${result.meta.physicalSize.dpi}dpi`);
+    if (result.meta.warnings.length) res.setHeader('X-Warnings', result.meta.warnings.map(w => w.message).join(','));
+
+    const image = Buffer.from(result.buffer);
+    const mode = responseMode(req);
+    res.vary('Accept');
+
+    if (mode === 'json') {
+      return res.json({ image: image.toString('base64'), mime: result.mime, meta: result.meta });
+    }
+
+    if (mode === 'multipart') {
+      const { body, boundary } = multipartBody(image, result.mime, result.meta);
+      res.setHeader('Content-Type', `multipart/mixed; boundary=${boundary}`);
+      return res.send(body);
+    }
+
+    res.setHeader('Content-Type', result.mime);
+    return res.send(image);
+
+  } catch (error: any) {
+    console.error('Error analyzing embroidery design:', error);
+    if (isPoolSaturated(error)) return sendBusy(res);
+    return res.status(500).json({
+      error: 'Processing failed',
+      message: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Asynchronous render: 202 with the job, then poll GET /jobs/:id or wait for the webhook
+app.post('/jobs', upload.single('image'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'No image file provided',
+        message: 'Please upload an image file using the "image" field'
+      });
+    }
+
+    const parsed = parseOptions(req.body?.options, presetName(req));
+    if ('error' in parsed) return res.status(400).json(parsed.error);
+    setClampedHeader(res, parsed.clamped);
+
+    const webhook = typeof req.body?.webhook === 'string' && req.body.webhook ? req.body.webhook : undefined;
+    if (webhook && !isValidWebhook(webhook)) {
+      return res.status(400).json({
+        error: 'Invalid webhook',
+        message: 'webhook must be an absolute http or https URL'
+      });
+    }
+
+    const submitted = await jobQueue.submit({
+      image: req.file.buffer,
+      mime: req.file.mimetype,
+      options: parsed.options,
+      ...(webhook ? { webhook } : {})
+    });
+    if ('error' in submitted) return sendBusy(res);
+
+    res.setHeader('Location', `/jobs/${submitted.job.id}`);
+    return res.status(202).json(jobView(submitted.job));
+
+  } catch (error) {
+    console.error('Error submitting job:', error);
+    return res.status(500).json({
+      error: 'Job submission failed',
+      message: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Job status with per-stage progress
+app.get('/jobs/:id', async (req, res) => {
+  try {
+    const job = await jobQueue.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found', message: `No job with id "${req.params.id}"` });
+    return res.json(jobView(job));
+  } catch (error) {
+    console.error('Error reading job:', error);
+    return res.status(500).json({
+      error: 'Job lookup failed',
+      message: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Rendered result, in the same shapes as POST /filter/embroidery
+app.get('/jobs/:id/result', async (req, res) => {
+  try {
+    const job = await jobQueue.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found', message: `No job with id "${req.params.id}"` });
+    if (job.status !== 'succeeded') {
+      return res.status(409).json({
+        error: 'No result',
+        message: isFinished(job) ? `Job ${job.status}` : 'Job has not finished yet',
+        job: jobView(job)
+      });
+    }
+
+    const stored = await jobQueue.result(job.id);
+    if (!stored || !stored.job.result) return res.status(404).json({ error: 'Result not found', message: 'The job result has expired' });
+    const { mime, meta, filename } = stored.job.result;
+    res.setHeader('X-Processing-Time', String(meta.processingTime));
+    return sendRender(req, res, filename
+      ? { buffer: stored.data, mime, meta, debugArchive: stored.data }
+      : { buffer: stored.data, mime, meta });
+
+  } catch (error) {
+    console.error('Error reading job result:', error);
+    return res.status(500).json({
+      error: 'Job lookup failed',
+      message: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
+// Cancel a queued or running job; a finished job is deleted along with its result
+app.delete('/jobs/:id', async (req, res) => {
+  try {
+    const job = await jobQueue.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found', message: `No job with id "${req.params.id}"` });
+    if (isFinished(job)) {
+      await jobQueue.remove(job.id);
+      return res.status(204).end();
+    }
+    const cancelled = await jobQueue.cancel(job.id);
+    return res.json(jobView(cancelled ?? job));
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return res.status(500).json({
+      error: 'Job cancellation failed',
+      message: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
+
 // Error handling middleware
 app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
   console.error('Unhandled error:', error);
@@ -237,12 +829,16 @@ app.use('*', (req, res) => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully...');
+  stopWatchingPresets();
+  await jobQueue.close();
   await piscina.destroy();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully...');
+  stopWatchingPresets();
+  await jobQueue.close();
   await piscina.destroy();
   process.exit(0);
 });
@@ -253,4 +849,7 @@ app.listen(PORT, () => {
   console.log(`📊 Worker pool initialized with ${piscina.maxThreads} threads`);
   console.log(`🔗 Health check available at http://localhost:${PORT}/health`);
   console.log(`🎨 Filter endpoint: POST http://localhost:${PORT}/filter/embroidery`);
+  console.log(`🧵 Stitch export: POST http://localhost:${PORT}/filter/embroidery/stitches?format=dst`);
+  console.log(`🧮 Estimate: POST http://localhost:${PORT}/filter/embroidery/estimate`);
+  console.log(`⏳ Async jobs: POST http://localhost:${PORT}/jobs (${jobQueue.stats().store} store)`);
 });
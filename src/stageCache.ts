@@ -0,0 +1,47 @@
+import { MessageChannel, type MessagePort } from 'node:worker_threads';
+import { LRUCache } from 'lru-cache';
+import type { StageCacheReply, StageCacheRequest } from './workers/types.ts';
+
+// Budget for serialized stage outputs in bytes (STAGE_CACHE_MAX_MB, 0 disables the cache)
+const BUDGET = Math.max(0, Number(process.env.STAGE_CACHE_MAX_MB ?? 512)) * 1024 * 1024;
+const TTL_MS = Math.max(1, Number(process.env.STAGE_CACHE_TTL_SECONDS) || 15 * 60) * 1000;
+
+// The main thread only indexes the buffers; workers write and read them directly, so nothing is copied between threads
+const entries = BUDGET > 0
+  ? new LRUCache<string, SharedArrayBuffer>({ maxSize: BUDGET, sizeCalculation: data => Math.max(1, data.byteLength), ttl: TTL_MS })
+  : undefined;
+const counters = { hits: 0, misses: 0, stored: 0 };
+
+/**
+ * Port for one worker task to reach the stage cache, or undefined when it's disabled. Transfer it with the task; the
+ * worker closes it when done. Call `release` if the task never reached a worker.
+ */
+export function connectStageCache(): { port: MessagePort; release(): void } | undefined {
+  if (!entries) return undefined;
+  const { port1, port2 } = new MessageChannel();
+  port1.on('message', (message: StageCacheRequest) => {
+    if (message.op === 'set') {
+      // Entries over the budget are refused by the LRU
+      entries.set(message.key, message.data);
+      counters.stored++;
+      return;
+    }
+    const data = entries.get(message.key);
+    if (data) counters.hits++;
+    else counters.misses++;
+    port1.postMessage({ id: message.id, ...(data ? { data } : {}) } satisfies StageCacheReply);
+  });
+  port1.unref();
+  // Closing either end closes the channel, including the end already handed to a worker
+  return { port: port2, release: () => port1.close() };
+}
+
+export function stageCacheStats() {
+  return {
+    enabled: entries !== undefined,
+    ...counters,
+    entries: entries?.size ?? 0,
+    sizeBytes: entries?.calculatedSize ?? 0,
+    budgetBytes: BUDGET
+  };
+}
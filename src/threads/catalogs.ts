@@ -0,0 +1,141 @@
+// Bundled thread catalogs (core solid colors of each line). RGB values approximate the manufacturers' color cards;
+// screens and dye lots vary, so confirm critical brand colors against a physical card.
+
+export interface Thread {
+  code: string;
+  name: string;
+  hex: string;
+}
+
+export interface ThreadCatalog {
+  id: string;
+  brand: string;
+  line: string;
+  threads: readonly Thread[];
+}
+
+export type ThreadCatalogId = 'madeira-polyneon' | 'isacord' | 'robison-anton-rayon';
+
+const MADEIRA_POLYNEON: readonly Thread[] = [
+  { code: '1800', name: 'Black', hex: '#1b1b1b' },
+  { code: '1801', name: 'White', hex: '#f7f7f2' },
+  { code: '1612', name: 'Snow White', hex: '#eeeee8' },
+  { code: '1618', name: 'Silver Grey', hex: '#b3b5b4' },
+  { code: '1641', name: 'Charcoal', hex: '#4a4c4f' },
+  { code: '1741', name: 'Ash Grey', hex: '#8c8f90' },
+  { code: '1624', name: 'Lemon', hex: '#f5e35a' },
+  { code: '1823', name: 'Canary Yellow', hex: '#f8d80e' },
+  { code: '1669', name: 'Sunflower', hex: '#f4b71a' },
+  { code: '1865', name: 'Tangerine', hex: '#f08a1c' },
+  { code: '1678', name: 'Orange', hex: '#ea6a1b' },
+  { code: '1637', name: 'Bright Red', hex: '#d3202d' },
+  { code: '1747', name: 'Red', hex: '#bf1e2d' },
+  { code: '1781', name: 'Burgundy', hex: '#7a1f2b' },
+  { code: '1707', name: 'Maroon', hex: '#5c1a24' },
+  { code: '1620', name: 'Pink', hex: '#f2a7bd' },
+  { code: '1709', name: 'Hot Pink', hex: '#e0457b' },
+  { code: '1721', name: 'Magenta', hex: '#b3236b' },
+  { code: '1722', name: 'Purple', hex: '#5e2d79' },
+  { code: '1633', name: 'Lavender', hex: '#a994c6' },
+  { code: '1743', name: 'Navy', hex: '#1f2a4d' },
+  { code: '1842', name: 'Royal Blue', hex: '#1f4a9c' },
+  { code: '1776', name: 'Medium Blue', hex: '#2f6bb3' },
+  { code: '1695', name: 'Sky Blue', hex: '#7bb3df' },
+  { code: '1674', name: 'Baby Blue', hex: '#b4d3ec' },
+  { code: '1692', name: 'Turquoise', hex: '#1a9cb0' },
+  { code: '1851', name: 'Emerald', hex: '#0f7f4f' },
+  { code: '1751', name: 'Kelly Green', hex: '#2a9a46' },
+  { code: '1769', name: 'Lime', hex: '#8cc63e' },
+  { code: '1704', name: 'Forest Green', hex: '#234a32' },
+  { code: '1796', name: 'Olive', hex: '#6b6b2f' },
+  { code: '1630', name: 'Tan', hex: '#c9a97b' },
+  { code: '1672', name: 'Cream', hex: '#efe3c2' },
+  { code: '1857', name: 'Brown', hex: '#6b4226' },
+  { code: '1658', name: 'Dark Brown', hex: '#3f2a1d' },
+  { code: '1870', name: 'Gold', hex: '#c79a2c' }
+];
+
+const ISACORD: readonly Thread[] = [
+  { code: '0020', name: 'Black', hex: '#1c1c1c' },
+  { code: '0015', name: 'White', hex: '#f6f6f1' },
+  { code: '0017', name: 'Paper White', hex: '#fbfbf8' },
+  { code: '0145', name: 'Cobblestone', hex: '#a6a7a4' },
+  { code: '0132', name: 'Dark Pewter', hex: '#57595b' },
+  { code: '0111', name: 'Whale', hex: '#7e8284' },
+  { code: '0250', name: 'Lemon', hex: '#f6e661' },
+  { code: '0600', name: 'Citrus', hex: '#f7d21a' },
+  { code: '0800', name: 'Goldenrod', hex: '#f1ad19' },
+  { code: '1102', name: 'Pumpkin', hex: '#ee8020' },
+  { code: '1304', name: 'Red Pepper', hex: '#e0562a' },
+  { code: '1902', name: 'Poinsettia', hex: '#c8202e' },
+  { code: '1903', name: 'Lipstick', hex: '#b51e30' },
+  { code: '2011', name: 'Fire Engine', hex: '#d12630' },
+  { code: '2123', name: 'Bordeaux', hex: '#6f1c2a' },
+  { code: '2115', name: 'Beet Red', hex: '#8d1f36' },
+  { code: '2155', name: 'Pink Tulip', hex: '#f1a9be' },
+  { code: '2520', name: 'Garden Rose', hex: '#dd4a80' },
+  { code: '2506', name: 'Petunia', hex: '#b02a6c' },
+  { code: '2910', name: 'Grape', hex: '#5b2c78' },
+  { code: '3040', name: 'Lavender', hex: '#a796c7' },
+  { code: '3644', name: 'Navy', hex: '#202b4b' },
+  { code: '3544', name: 'Fire Blue', hex: '#234a98' },
+  { code: '3631', name: 'Celestial', hex: '#3068b0' },
+  { code: '3840', name: 'Crystal Blue', hex: '#80b6df' },
+  { code: '3750', name: 'Baby Blue', hex: '#b7d4ea' },
+  { code: '4103', name: 'Caribbean', hex: '#1d99ae' },
+  { code: '5513', name: 'Emerald', hex: '#117c4d' },
+  { code: '5633', name: 'Lizzy Lime', hex: '#8ec640' },
+  { code: '5613', name: 'Shamrock', hex: '#2c9846' },
+  { code: '5374', name: 'Forest Green', hex: '#244a33' },
+  { code: '6133', name: 'Olive Drab', hex: '#6b692f' },
+  { code: '0851', name: 'Old Gold', hex: '#c49a30' },
+  { code: '0761', name: 'Oat', hex: '#cdaf82' },
+  { code: '0270', name: 'Ivory', hex: '#f0e4c4' },
+  { code: '1154', name: 'Redwood', hex: '#6d4327' },
+  { code: '1876', name: 'Chocolate', hex: '#402b1e' }
+];
+
+const ROBISON_ANTON_RAYON: readonly Thread[] = [
+  { code: '2296', name: 'Black', hex: '#1d1d1d' },
+  { code: '2297', name: 'White', hex: '#f5f5f0' },
+  { code: '2401', name: 'Snow White', hex: '#fafaf6' },
+  { code: '2431', name: 'Silver', hex: '#b0b2b1' },
+  { code: '2416', name: 'Steel Grey', hex: '#5a5c5f' },
+  { code: '2412', name: 'Nickel', hex: '#8a8d8e' },
+  { code: '2242', name: 'Lemon', hex: '#f4e25c' },
+  { code: '2244', name: 'Yellow', hex: '#f7d617' },
+  { code: '2252', name: 'Goldenrod', hex: '#f1b01c' },
+  { code: '2257', name: 'Tangerine', hex: '#ef861f' },
+  { code: '2209', name: 'Orange', hex: '#e7641d' },
+  { code: '2248', name: 'Red Berry', hex: '#d1222e' },
+  { code: '2262', name: 'Jockey Red', hex: '#c11f2f' },
+  { code: '2500', name: 'Burgundy', hex: '#761e2c' },
+  { code: '2417', name: 'Wine', hex: '#5e1b26' },
+  { code: '2223', name: 'Pink', hex: '#f0a6bc' },
+  { code: '2508', name: 'Hot Pink', hex: '#df477d' },
+  { code: '2594', name: 'Magenta', hex: '#b1256d' },
+  { code: '2254', name: 'Purple', hex: '#5d2e7a' },
+  { code: '2302', name: 'Lavender', hex: '#a895c5' },
+  { code: '2246', name: 'Navy', hex: '#1e294b' },
+  { code: '2214', name: 'Royal', hex: '#214b9a' },
+  { code: '2253', name: 'Blue', hex: '#2e6ab2' },
+  { code: '2238', name: 'Sky Blue', hex: '#7db4de' },
+  { code: '2201', name: 'Baby Blue', hex: '#b5d3eb' },
+  { code: '2239', name: 'Turquoise', hex: '#1b9aaf' },
+  { code: '2282', name: 'Emerald', hex: '#107e4e' },
+  { code: '2210', name: 'Kelly', hex: '#2b9947' },
+  { code: '2205', name: 'Lime', hex: '#8bc53f' },
+  { code: '2276', name: 'Forest', hex: '#234933' },
+  { code: '2325', name: 'Olive', hex: '#6a6a30' },
+  { code: '2227', name: 'Tan', hex: '#c8a87c' },
+  { code: '2211', name: 'Cream', hex: '#eee2c3' },
+  { code: '2234', name: 'Brown', hex: '#6a4127' },
+  { code: '2220', name: 'Dark Brown', hex: '#3e2a1e' },
+  { code: '2268', name: 'Old Gold', hex: '#c6992d' }
+];
+
+export const THREAD_CATALOGS: Record<ThreadCatalogId, ThreadCatalog> = {
+  'madeira-polyneon': { id: 'madeira-polyneon', brand: 'Madeira', line: 'Polyneon 40', threads: MADEIRA_POLYNEON },
+  'isacord': { id: 'isacord', brand: 'Isacord', line: 'Isacord 40', threads: ISACORD },
+  'robison-anton-rayon': { id: 'robison-anton-rayon', brand: 'Robison-Anton', line: 'Rayon 40', threads: ROBISON_ANTON_RAYON }
+};
@@ -0,0 +1,58 @@
+import { rgbToLab, deltaE2000, hexToRgb } from '../pipeline/color.ts';
+import { recolorQuantized, type QuantizationResult } from '../pipeline/quantize.ts';
+import { THREAD_CATALOGS, type ThreadCatalogId } from './catalogs.ts';
+
+export interface ThreadMatch {
+  brand: string;
+  catalog: ThreadCatalogId;
+  code: string;
+  name: string;
+  hex: string;
+  // CIEDE2000 distance between the quantized color and the thread
+  deltaE: number;
+}
+
+const catalogLabs = new Map<ThreadCatalogId, Array<[number, number, number]>>();
+
+function labsFor(catalogId: ThreadCatalogId): Array<[number, number, number]> {
+  let labs = catalogLabs.get(catalogId);
+  if (!labs) {
+    labs = THREAD_CATALOGS[catalogId].threads.map(t => { const { r, g, b } = hexToRgb(t.hex); return rgbToLab(r, g, b); });
+    catalogLabs.set(catalogId, labs);
+  }
+  return labs;
+}
+
+/**
+ * Nearest catalog thread (Delta E 2000) for each palette color
+ */
+export function matchThreads(palette: Array<{ r: number; g: number; b: number }>, catalogId: ThreadCatalogId): ThreadMatch[] {
+  const catalog = THREAD_CATALOGS[catalogId];
+  const labs = labsFor(catalogId);
+  return palette.map(color => {
+    const lab = rgbToLab(color.r, color.g, color.b);
+    let best = 0, bestD = Infinity;
+    labs.forEach((threadLab, i) => { const d = deltaE2000(lab, threadLab); if (d < bestD) { bestD = d; best = i; } });
+    const thread = catalog.threads[best]!;
+    return { brand: catalog.brand, catalog: catalogId, code: thread.code, name: thread.name, hex: thread.hex, deltaE: Math.round(bestD * 100) / 100 };
+  });
+}
+
+/**
+ * Replace every quantized color with its nearest thread so the mockup only shows sewable colors.
+ * Palette entries that land on the same thread are merged; the returned matches line up with the new palette.
+ */
+export function snapToThreads(quantized: QuantizationResult, catalogId: ThreadCatalogId): { quantized: QuantizationResult; threads: ThreadMatch[] } {
+  const matches = matchThreads(quantized.palette, catalogId);
+  const recolored = recolorQuantized(quantized, matches.map(m => hexToRgb(m.hex)));
+  return { quantized: recolored.quantized, threads: recolored.kept.map(i => matches[i]!) };
+}
+
+/**
+ * Look up a thread by its catalog code
+ */
+export function findThread(catalogId: ThreadCatalogId, code: string): ThreadMatch | undefined {
+  const catalog = THREAD_CATALOGS[catalogId];
+  const thread = catalog.threads.find(t => t.code === code);
+  return thread && { brand: catalog.brand, catalog: catalogId, code: thread.code, name: thread.name, hex: thread.hex, deltaE: 0 };
+}
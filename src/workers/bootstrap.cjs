@@ -2,5 +2,10 @@
 require('tsx/cjs');
 const mod = require('./runEmbroidery.ts');
 module.exports = mod.default || mod;
+// Additional named handlers, selected with piscina.run(payload, { name })
+module.exports.runStitches = require('./runStitches.ts').default;
+module.exports.runEstimate = require('./runEstimate.ts').default;
+module.exports.runAnalyze = require('./runAnalyze.ts').default;
+module.exports.runBatch = require('./runBatch.ts').default;
 
 
@@ -2,5 +2,8 @@ const { register } = await import('esbuild-register/dist/node.js');
 register({ target: 'es2022' });
 const mod = await import('./runEmbroidery.ts');
 export default mod.default;
-
+export const runStitches = (await import('./runStitches.ts')).default;
+export const runEstimate = (await import('./runEstimate.ts')).default;
+export const runAnalyze = (await import('./runAnalyze.ts')).default;
+export const runBatch = (await import('./runBatch.ts')).default;
 
@@ -0,0 +1,24 @@
+import { processAnalysis } from '../pipeline/embroidery.ts';
+import type { AnalyzePayload, AnalyzeResult } from './types.ts';
+
+/**
+ * Worker thread entry point for the problem-area overlay
+ * Called by the main thread via Piscina with `{ name: 'runAnalyze' }`
+ */
+export default async function runAnalyze(payload: AnalyzePayload): Promise<AnalyzeResult> {
+  const startTime = Date.now();
+
+  const result = await processAnalysis(payload.image, payload.mime, payload.options);
+
+  return {
+    buffer: result.buffer,
+    mime: result.mime,
+    meta: {
+      processingTime: Date.now() - startTime,
+      physicalSize: result.physicalSize,
+      palette: result.palette,
+      warnings: result.warnings,
+      legend: result.legend
+    }
+  };
+}
@@ -0,0 +1,34 @@
+import { processEmbroidery, type StageMemo } from '../pipeline/embroidery.ts';
+import type { BatchPayload, BatchResult, WorkerResult } from './types.ts';
+import { stageCacheClient } from './stageCacheClient.ts';
+
+/**
+ * Worker thread entry point for batch renders of one image
+ * Called by the main thread via Piscina with `{ name: 'runBatch' }`. Variants render one after another and share
+ * every stage whose inputs match, and the stage cache, when connected, carries results across requests.
+ */
+export default async function runBatch(payload: BatchPayload): Promise<BatchResult> {
+  const startTime = Date.now();
+  const memo: StageMemo = new Map();
+  const cache = payload.stageCache ? stageCacheClient(payload.stageCache) : undefined;
+  const items: BatchResult['items'] = [];
+
+  for (const options of payload.variants) {
+    const itemStart = Date.now();
+    try {
+      const result = await processEmbroidery(payload.image, payload.mime, options, { memo, ...(cache ? { cache } : {}) });
+      const item: WorkerResult = {
+        buffer: result.buffer,
+        mime: result.mime,
+        meta: { processingTime: Date.now() - itemStart, ...result.meta },
+        ...(result.debugArchive ? { debugArchive: result.debugArchive } : {})
+      };
+      items.push({ result: item });
+    } catch (error) {
+      items.push({ error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  cache?.close();
+  return { processingTime: Date.now() - startTime, items };
+}
@@ -1,36 +1,6 @@
 import { processEmbroidery } from '../pipeline/embroidery.ts';
-
-// Types for worker communication
-interface WorkerPayload {
-  image: Buffer;
-  mime: string;
-  options: {
-    maxColors: number;
-    threadThickness: number;
-    preserveTransparency: boolean;
-    hatch: 'none' | 'diagonal' | 'cross';
-    background: {
-      type: 'color' | 'fabric';
-      hex?: string;
-      name?: string;
-    } | null;
-    style: {
-      orientation: 'binned-8' | 'lic';
-      edges: 'canny' | 'xdog';
-    };
-  };
-}
-
-interface WorkerResult {
-  buffer: Buffer;
-  mime: string;
-  meta?: {
-    processingTime: number;
-    paletteSize: number;
-    originalSize: { width: number; height: number };
-    finalSize: { width: number; height: number };
-  };
-}
+import type { WorkerPayload, WorkerResult, StageProgress } from './types.ts';
+import { stageCacheClient } from './stageCacheClient.ts';
 
 /**
  * Worker thread entry point for embroidery processing
@@ -41,24 +11,32 @@ export default async function runEmbroidery(payload: WorkerPayload): Promise<Wor
     const startTime = Date.now();
     
     // Process the image through the embroidery pipeline
+    const progress = payload.progress;
+    const cache = payload.stageCache ? stageCacheClient(payload.stageCache) : undefined;
     const result = await processEmbroidery(
       payload.image,
       payload.mime,
-      payload.options
-    );
+      payload.options,
+      {
+        ...(progress ? { onStage: (stage, ms) => progress.postMessage({ stage, ms } satisfies StageProgress) } : {}),
+        ...(cache ? { cache } : {})
+      }
+    ).finally(() => {
+      progress?.close();
+      cache?.close();
+    });
     
     const processingTime = Date.now() - startTime;
     
-    // Return the processed image with metadata
+    // Return the processed image with the full pipeline metadata
     return {
       buffer: result.buffer,
       mime: result.mime,
       meta: {
         processingTime,
-        paletteSize: result.meta?.paletteSize || 0,
-        originalSize: result.meta?.originalSize || { width: 0, height: 0 },
-        finalSize: result.meta?.finalSize || { width: 0, height: 0 }
-      }
+        ...result.meta
+      },
+      ...(result.debugArchive ? { debugArchive: result.debugArchive } : {})
     };
     
   } catch (error) {
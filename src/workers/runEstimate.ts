@@ -0,0 +1,20 @@
+import { processEstimate } from '../pipeline/embroidery.ts';
+import type { EstimatePayload, EstimateResult } from './types.ts';
+
+/**
+ * Worker thread entry point for stitch/thread/run-time estimates
+ * Called by the main thread via Piscina with `{ name: 'runEstimate' }`
+ */
+export default async function runEstimate(payload: EstimatePayload): Promise<EstimateResult> {
+  const startTime = Date.now();
+
+  const result = await processEstimate(payload.image, payload.mime, payload.options);
+
+  return {
+    processingTime: Date.now() - startTime,
+    estimate: result.estimate,
+    physicalSize: result.physicalSize,
+    palette: result.palette,
+    ...(result.threads ? { threads: result.threads } : {})
+  };
+}
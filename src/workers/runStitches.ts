@@ -0,0 +1,26 @@
+import { processStitches } from '../pipeline/embroidery.ts';
+import type { StitchPayload, StitchResult } from './types.ts';
+
+/**
+ * Worker thread entry point for stitch-file export
+ * Called by the main thread via Piscina with `{ name: 'runStitches' }`
+ */
+export default async function runStitches(payload: StitchPayload): Promise<StitchResult> {
+  const startTime = Date.now();
+
+  const result = await processStitches(payload.image, payload.mime, payload.options, payload.format);
+
+  return {
+    buffer: result.buffer,
+    mime: result.mime,
+    extension: result.extension,
+    meta: {
+      processingTime: Date.now() - startTime,
+      physicalSize: result.meta.physicalSize,
+      stitchCount: result.meta.stitchCount,
+      colorChanges: result.meta.colorChanges,
+      threads: result.meta.threads,
+      extents: result.meta.extents
+    }
+  };
+}
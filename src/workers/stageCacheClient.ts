@@ -0,0 +1,56 @@
+import v8 from 'node:v8';
+import type { MessagePort } from 'node:worker_threads';
+import type { StageCache } from '../pipeline/stages.ts';
+import type { StageCacheReply, StageCacheRequest } from './types.ts';
+
+// A lookup the main thread hasn't answered by then counts as a miss
+const LOOKUP_TIMEOUT_MS = 2000;
+
+/**
+ * Worker side of the stage cache. Values are v8-serialized into a SharedArrayBuffer, which reaches the main thread and
+ * other workers without a copy; a hit is deserialized into the worker's own copy of the value.
+ */
+export function stageCacheClient(port: MessagePort): StageCache & { close(): void } {
+  const pending = new Map<number, (data: SharedArrayBuffer | undefined) => void>();
+  let nextId = 0;
+  let closed = false;
+
+  port.on('message', ({ id, data }: StageCacheReply) => {
+    pending.get(id)?.(data);
+    pending.delete(id);
+  });
+  port.on('close', () => {
+    closed = true;
+    for (const resolve of pending.values()) resolve(undefined);
+    pending.clear();
+  });
+
+  return {
+    async get(key) {
+      if (closed) return undefined;
+      const id = nextId++;
+      const data = await new Promise<SharedArrayBuffer | undefined>(resolve => {
+        const timer = setTimeout(() => { pending.delete(id); resolve(undefined); }, LOOKUP_TIMEOUT_MS);
+        pending.set(id, value => { clearTimeout(timer); resolve(value); });
+        port.postMessage({ op: 'get', id, key } satisfies StageCacheRequest);
+      });
+      if (!data) return undefined;
+      try {
+        return v8.deserialize(Buffer.from(data));
+      } catch {
+        return undefined;
+      }
+    },
+    set(key, value) {
+      if (closed) return;
+      const bytes = v8.serialize(value);
+      const data = new SharedArrayBuffer(bytes.length);
+      new Uint8Array(data).set(bytes);
+      port.postMessage({ op: 'set', key, data } satisfies StageCacheRequest);
+    },
+    close() {
+      closed = true;
+      port.close();
+    }
+  };
+}
@@ -0,0 +1,136 @@
+import type { MessagePort } from 'node:worker_threads';
+import type { EmbroideryOptions } from '../pipeline/embroidery.ts';
+import type { EmbroideryStage } from '../pipeline/stages.ts';
+import type { StitchFormat } from '../formats/stitchFile.ts';
+import type { ThreadMatch } from '../threads/match.ts';
+import type { StitchEstimate } from '../pipeline/estimate.ts';
+import type { PhysicalSize } from '../pipeline/sizing.ts';
+import type { DesignWarning } from '../pipeline/warnings.ts';
+import type { OverlayLegendEntry } from '../pipeline/overlay.ts';
+
+// Types for worker communication, shared by the server and the worker entry points
+
+export type { EmbroideryOptions };
+
+export interface PaletteColor { r: number; g: number; b: number; a: number }
+
+export interface EmbroideryMeta {
+  processingTime: number;
+  paletteSize: number;
+  originalSize: { width: number; height: number };
+  finalSize: { width: number; height: number };
+  // Real-world size and resolution of the design (10 px/mm unless options.size is set)
+  physicalSize: PhysicalSize;
+  palette: PaletteColor[];
+  // Seed used for grain and LIC noise; send it back as options.seed to reproduce the render exactly
+  seed: number;
+  // Suitability and output notices; located ones carry a bbox in design pixels
+  warnings: DesignWarning[];
+  timings: Record<string, number>;
+  // Total of estimate.total, kept for existing clients
+  stitchEstimate: number;
+  estimate: StitchEstimate;
+  // Matched catalog threads, aligned with `palette`, when options.threads.catalog is set
+  threads?: ThreadMatch[];
+}
+
+export interface WorkerPayload {
+  image: Buffer;
+  mime: string;
+  options: EmbroideryOptions;
+  // Receives a StageProgress message as each render stage finishes (async jobs); must be in the transferList
+  progress?: MessagePort;
+  // Connection to the main thread's stage cache (see stageCache.ts); must be in the transferList
+  stageCache?: MessagePort;
+}
+
+// Stage cache protocol: values travel as v8-serialized bytes in a SharedArrayBuffer, so every thread reads the same copy
+export type StageCacheRequest =
+  | { op: 'get'; id: number; key: string }
+  | { op: 'set'; key: string; data: SharedArrayBuffer };
+
+export interface StageCacheReply {
+  id: number;
+  data?: SharedArrayBuffer;
+}
+
+export interface StageProgress {
+  stage: EmbroideryStage;
+  ms: number;
+}
+
+export interface WorkerResult {
+  buffer: Buffer;
+  mime: string;
+  meta: EmbroideryMeta;
+  // ZIP of the intermediate layers when options.debug.layers is set
+  debugArchive?: Buffer;
+}
+
+// One image rendered with several option sets; the analysis stages are computed once per distinct input
+export interface BatchPayload {
+  image: Buffer;
+  mime: string;
+  variants: EmbroideryOptions[];
+  stageCache?: MessagePort;
+}
+
+// Aligned with `variants`; a failed variant carries its error instead of a result
+export interface BatchResult {
+  processingTime: number;
+  items: Array<{ result: WorkerResult } | { error: string }>;
+}
+
+export interface StitchPayload {
+  image: Buffer;
+  mime: string;
+  format: StitchFormat;
+  options: EmbroideryOptions;
+}
+
+export interface StitchResult {
+  buffer: Buffer;
+  mime: string;
+  extension: string;
+  meta: {
+    processingTime: number;
+    physicalSize: PhysicalSize;
+    stitchCount: number;
+    colorChanges: number;
+    threads: Array<{ r: number; g: number; b: number }>;
+    extents: { minX: number; minY: number; maxX: number; maxY: number };
+  };
+}
+
+export interface EstimatePayload {
+  image: Buffer;
+  mime: string;
+  options: EmbroideryOptions;
+}
+
+export interface EstimateResult {
+  processingTime: number;
+  estimate: StitchEstimate;
+  physicalSize: PhysicalSize;
+  palette: PaletteColor[];
+  threads?: ThreadMatch[];
+}
+
+export interface AnalyzePayload {
+  image: Buffer;
+  mime: string;
+  options: EmbroideryOptions;
+}
+
+export interface AnalyzeResult {
+  // PNG overlay: the input with problem areas highlighted, legend strip underneath
+  buffer: Buffer;
+  mime: string;
+  meta: {
+    processingTime: number;
+    physicalSize: PhysicalSize;
+    palette: PaletteColor[];
+    warnings: DesignWarning[];
+    legend: OverlayLegendEntry[];
+  };
+}